@@ -1,7 +1,16 @@
 #!/usr/bin/env node
 import { cli } from "cleye";
 import aicommits from "./commands/aicommits.js";
+import cacheCommand from "./commands/cache.js";
+import changelogCommand from "./commands/changelog.js";
 import configCommand from "./commands/config.js";
+import doctorCommand from "./commands/doctor.js";
+import hookCommand from "./commands/hook.js";
+import pairCommand from "./commands/pair.js";
+import prCommand from "./commands/pr.js";
+import rewordCommand from "./commands/reword.js";
+import rewriteCommand from "./commands/rewrite.js";
+import usageCommand from "./commands/usage.js";
 import pkg from "../package.json";
 
 // Get raw arguments for passing to git commit
@@ -24,11 +33,16 @@ cli(
 				description: "Number of messages to generate (1-5)",
 				alias: "g",
 			},
+			"co-author": {
+				type: [String],
+				description:
+					"Add a Co-authored-by trailer, by name from recent commits or as `Name <email>`",
+			},
 			exclude: {
-				type: String,
-				description: "Files to exclude from AI analysis",
+				type: [String],
+				description:
+					"Files to exclude from AI analysis (gitignore syntax, `!` re-includes a default)",
 				alias: "x",
-				multiple: true,
 			},
 			all: {
 				type: Boolean,
@@ -53,6 +67,11 @@ cli(
 				alias: "c",
 				default: false,
 			},
+			body: {
+				type: Boolean,
+				description: "Generate a commit body below the subject line",
+				default: false,
+			},
 			debug: {
 				type: Boolean,
 				description: "Show debug information",
@@ -63,9 +82,46 @@ cli(
 				description: "Skip pre-commit hooks",
 				default: false,
 			},
+			yes: {
+				type: Boolean,
+				description: "Commit the first generated message without prompting",
+				alias: "y",
+				default: false,
+			},
+			print: {
+				type: Boolean,
+				description: "Print the generated messages instead of committing",
+				default: false,
+			},
+			split: {
+				type: Boolean,
+				description: "Split the staged changes into several commits",
+				default: false,
+			},
+			"amend-message": {
+				type: Boolean,
+				description: "Generate a new message for the last commit and amend it",
+				default: false,
+			},
+			json: {
+				type: Boolean,
+				description: "Print the generated messages and run details as JSON",
+				default: false,
+			},
 		},
 
-		commands: [configCommand],
+		commands: [
+			configCommand,
+			hookCommand,
+			rewordCommand,
+			rewriteCommand,
+			prCommand,
+			changelogCommand,
+			cacheCommand,
+			pairCommand,
+			usageCommand,
+			doctorCommand,
+		],
 
 		help: {
 			description: pkg.description,
@@ -77,22 +133,23 @@ cli(
 	// Command handler
 	(argv) => {
 		// Generate commit message
-		aicommits(
-			argv.flags.generate,
-			// Ensure exclude is always an array
-			Array.isArray(argv.flags.exclude) ? argv.flags.exclude : [],
-			argv.flags.all,
-			argv.flags.type,
-			// Set use-branch-prefix config if branch-prefix flag is provided
-			argv.flags["branch-prefix"],
-			// Set capitalize-message config if capitalize-message flag is provided
-			argv.flags["capitalize-message"],
-			// Pass debug flag
-			argv.flags.debug,
-			// Pass no-verify flag
-			argv.flags["no-verify"],
+		aicommits({
+			generate: argv.flags.generate,
+			excludeFiles: argv.flags.exclude,
+			coAuthors: argv.flags["co-author"],
+			stageAll: argv.flags.all,
+			commitType: argv.flags.type,
+			useBranchPrefix: argv.flags["branch-prefix"],
+			capitalizeMessage: argv.flags["capitalize-message"],
+			body: argv.flags.body,
+			debug: argv.flags.debug,
+			noVerify: argv.flags["no-verify"],
+			yes: argv.flags.yes,
+			split: argv.flags.split,
+			rev: argv.flags["amend-message"] ? "HEAD" : undefined,
+			output: argv.flags.json ? "json" : argv.flags.print ? "print" : "interactive",
 			rawArgv,
-		);
+		});
 	},
 	rawArgv,
 );
@@ -1,15 +1,58 @@
+import fs from "node:fs/promises";
 import { execa } from "execa";
-import { black, dim, green, red, bgCyan } from "kolorist";
-import { intro, outro, spinner, select, confirm, isCancel } from "@clack/prompts";
+import { black, dim, green, red, yellow, bgCyan } from "kolorist";
+import { intro, outro, spinner, select, text, isCancel, note } from "@clack/prompts";
 import {
+	type DiffChanges,
+	type DiffOptions,
 	assertGitRepo,
 	getStagedDiff,
 	getDetectedMessage,
 	getCurrentBranch,
+	getGitPath,
+	openInEditor,
+	getCommitDiff,
+	getPushedUpstream,
+	resolveCommit,
+	rewordCommits,
+	getStagedFiles,
+	commitFileGroups,
+	saveCommitMessage,
+	loadSavedCommitMessage,
+	removeSavedCommitMessage,
+	addTrailers,
+	getCommitMessage,
+	getMessageTrailers,
 } from "../utils/git.js";
-import { getConfig } from "../utils/config.js";
-import { generateCommitMessage } from "../utils/openai.js";
-import { KnownError, handleCliError } from "../utils/error.js";
+import { getConfig, parseConfigValue } from "../utils/config.js";
+import { getCommitTypeNames } from "../utils/commit-types.js";
+import { type CommitStyle, loadCommitStyle } from "../utils/commit-style.js";
+import {
+	type CommitGroup,
+	buildCommitPrompt,
+	fixCommitMessage,
+	generateCommitMessage,
+	planCommitSplit,
+} from "../utils/ai.js";
+import { lintCommitMessage, loadLintRules } from "../utils/commitlint.js";
+import { type TokenUsage, addUsage } from "../utils/providers/index.js";
+import {
+	CancelledError,
+	ConfigError,
+	GitError,
+	NoChangesError,
+	ProviderError,
+	formatJsonError,
+	getExitCode,
+	handleCliError,
+} from "../utils/error.js";
+import { getCacheKey, readCache, writeCache } from "../utils/cache.js";
+import { describeRedactions, redactDiff } from "../utils/redact.js";
+import type { ExcludedFile } from "../utils/ignore.js";
+import { createPreviewSpinner } from "../utils/preview.js";
+import { checkBudget, estimateCost, recordUsage } from "../utils/usage.js";
+import { formatBranchPrefix, stripBranchPrefix } from "../utils/branch-prefix.js";
+import { collectTrailers } from "../utils/trailers.js";
 import clipboardy from "clipboardy";
 
 /**
@@ -18,15 +61,48 @@ import clipboardy from "clipboardy";
 type AicommitsOptions = {
 	generate?: number;
 	excludeFiles: string[];
+	// Co-authors of this commit, by name or `Name <email>`
+	coAuthors?: string[];
 	stageAll: boolean;
 	commitType?: string;
 	useBranchPrefix?: boolean;
 	capitalizeMessage?: boolean;
+	body?: boolean;
 	debug?: boolean;
 	noVerify?: boolean;
+	// Commit the first message without showing the picker
+	yes?: boolean;
+	// Pick and commit interactively, or only print the messages
+	output?: OutputMode;
+	// Reword this commit instead of committing the staged changes
+	rev?: string;
+	// Reword the commit even if it was already pushed
+	force?: boolean;
+	// Split the staged changes into several commits
+	split?: boolean;
 	rawArgv: string[];
 };
 
+/**
+ * How the result of a run is presented
+ */
+type OutputMode = "interactive" | "print" | "json";
+
+/**
+ * A generated commit message and the commit rules it breaks
+ */
+type CommitCandidate = {
+	message: string;
+	violations: string[];
+};
+
+/**
+ * Create a spinner, or one that shows nothing when the output is machine-readable
+ */
+function createSpinner(quiet: boolean): ReturnType<typeof spinner> {
+	return quiet ? { start: () => {}, stop: () => {} } : spinner();
+}
+
 /**
  * Stage all changes if requested
  */
@@ -40,25 +116,23 @@ async function stageAllChanges(): Promise<void> {
  */
 async function getStagedChanges(
 	excludeFiles: string[],
-): Promise<{ files: string[]; diff: string }> {
-	const detectingFiles = spinner();
+	options: DiffOptions,
+	quiet: boolean,
+): Promise<DiffChanges> {
+	const detectingFiles = createSpinner(quiet);
 	detectingFiles.start("Detecting staged files");
 
 	try {
-		const staged = await getStagedDiff(excludeFiles);
+		const staged = await getStagedDiff(excludeFiles, options);
 
 		if (!staged) {
-			throw new KnownError(
+			throw new NoChangesError(
 				"No staged changes found. Stage your changes manually, or automatically stage all changes with the `--all` flag.",
 			);
 		}
 
 		// Display the detected files
-		detectingFiles.stop(
-			`${getDetectedMessage(staged.files)}:\n${staged.files
-				.map((file) => `     ${file}`)
-				.join("\n")}`,
-		);
+		detectingFiles.stop(getDetectedMessage(staged.fileChanges, staged.excluded));
 
 		return staged;
 	} catch (error) {
@@ -68,142 +142,582 @@ async function getStagedChanges(
 }
 
 /**
- * Load configuration and environment variables
+ * Redact secrets from the diff before it is sent, warning about sensitive files
+ */
+export function redactChanges(
+	config: Awaited<ReturnType<typeof getConfig>>,
+	changes: DiffChanges,
+	quiet: boolean,
+	debug?: boolean,
+): DiffChanges {
+	const { diff, redactions, sensitiveFiles } = redactDiff(changes.diff, config);
+
+	// Warnings go to stderr so they don't mix with --print and --json output
+	if (sensitiveFiles.length > 0) {
+		console.error(
+			yellow(
+				`⚠ Sensitive files changed, their content is not sent: ${sensitiveFiles.join(
+					", ",
+				)}`,
+			),
+		);
+	}
+	if (redactions.length > 0 && !quiet) {
+		console.log(
+			yellow(
+				`⚠ Redacted ${redactions.length} possible secret${
+					redactions.length > 1 ? "s" : ""
+				} from the diff`,
+			),
+		);
+	}
+
+	if (debug) {
+		console.error("\n--- REDACTION DEBUG INFO ---");
+		console.error(describeRedactions(redactions).join("\n") || "Nothing redacted");
+		console.error("----------------------------\n");
+	}
+
+	return { ...changes, diff };
+}
+
+/**
+ * Get the changes of an existing commit and display information to the user
+ */
+async function getCommitChanges(
+	commit: string,
+	excludeFiles: string[],
+	options: DiffOptions,
+	quiet: boolean,
+): Promise<DiffChanges> {
+	const detectingFiles = createSpinner(quiet);
+	detectingFiles.start(`Detecting files changed in ${commit.slice(0, 7)}`);
+
+	try {
+		const changes = await getCommitDiff(commit, excludeFiles, options);
+
+		if (!changes) {
+			throw new NoChangesError(
+				`Commit ${commit.slice(0, 7)} has no changes to describe.`,
+			);
+		}
+
+		detectingFiles.stop(
+			getDetectedMessage(changes.fileChanges, changes.excluded, "changed"),
+		);
+
+		return changes;
+	} catch (error) {
+		detectingFiles.stop("Error detecting changed files");
+		throw error;
+	}
+}
+
+/**
+ * Refuse to rewrite a commit that is already on the upstream branch
+ *
+ * @throws {GitError} If the commit was pushed
+ */
+export async function assertNotPushed(commit: string): Promise<void> {
+	const upstream = await getPushedUpstream(commit);
+	if (upstream) {
+		throw new GitError(
+			`Commit ${commit.slice(
+				0,
+				7,
+			)} is already pushed to ${upstream}. Use --force to rewrite it anyway.`,
+		);
+	}
+}
+
+/**
+ * Load configuration, layered over the CLI flags
  */
 async function loadConfig(
 	options: Pick<
 		AicommitsOptions,
-		"generate" | "commitType" | "useBranchPrefix" | "capitalizeMessage"
+		"generate" | "commitType" | "useBranchPrefix" | "capitalizeMessage" | "body"
 	>,
 ): Promise<ReturnType<typeof getConfig>> {
-	const { env } = process;
-
+	// Boolean flags default to false, so only pass them when set to let
+	// the repository and user config enable them
 	return getConfig({
-		OPENAI_KEY: env.OPENAI_KEY || env.OPENAI_API_KEY,
-		proxy: env.https_proxy || env.HTTPS_PROXY || env.http_proxy || env.HTTP_PROXY,
 		generate: options.generate?.toString(),
 		type: options.commitType?.toString(),
-		"use-branch-prefix":
-			options.useBranchPrefix !== undefined ? String(options.useBranchPrefix) : undefined,
-		"capitalize-message":
-			options.capitalizeMessage !== undefined
-				? String(options.capitalizeMessage)
-				: undefined,
+		"use-branch-prefix": options.useBranchPrefix ? "true" : undefined,
+		"capitalize-message": options.capitalizeMessage ? "true" : undefined,
+		body: options.body ? "true" : undefined,
 	});
 }
 
 /**
- * Generate commit messages using OpenAI
+ * Options for a commit message generation
  */
-async function generateMessages(
+type GenerateMessagesOptions = {
+	// Don't show spinners, for machine-readable output
+	quiet?: boolean;
+	style?: CommitStyle;
+	hint?: string;
+	// Skip cached messages and ask the model again
+	fresh?: boolean;
+};
+
+/**
+ * Describe how long ago a timestamp was
+ */
+function formatAge(timestamp: number): string {
+	const minutes = Math.round((Date.now() - timestamp) / 60_000);
+	if (minutes < 1) {
+		return "just now";
+	}
+	if (minutes < 60) {
+		return `${minutes} minute${minutes > 1 ? "s" : ""} ago`;
+	}
+	const hours = Math.round(minutes / 60);
+	return `${hours} hour${hours > 1 ? "s" : ""} ago`;
+}
+
+/**
+ * Generate commit messages, reusing the cached messages of an earlier run
+ * on the same diff with the same prompt and settings
+ */
+export async function generateMessages(
 	config: Awaited<ReturnType<typeof getConfig>>,
 	diff: string,
-): Promise<string[]> {
-	const s = spinner();
-	s.start("The AI is analyzing your changes");
+	{ quiet = false, style, hint, fresh = false }: GenerateMessagesOptions = {},
+): Promise<{
+	candidates: CommitCandidate[];
+	usage: TokenUsage;
+	model: string;
+	cachedAt?: number;
+}> {
+	// Built once, for the cache key and the request
+	const systemPrompt = await buildCommitPrompt(config, diff, { hint, style });
+	const cacheKey = config.cache
+		? getCacheKey({
+				diff,
+				systemPrompt,
+				provider: config.provider,
+				baseUrl: config["base-url"],
+				model: config.model,
+				generate: config.generate,
+				body: config.body,
+				maxDiffTokens: config["max-diff-tokens"],
+				lint: config.lint,
+				lintRetries: config["lint-retries"],
+		  })
+		: undefined;
 
-	try {
-		const messages = await generateCommitMessage(
-			config.OPENAI_KEY,
-			config.model,
-			config.locale,
-			diff,
-			config.generate,
-			config["max-length"],
-			config.type,
-			config.timeout,
-			config,
-			config.proxy,
+	if (cacheKey && !fresh) {
+		const cached = await readCache<string[]>(cacheKey, config["cache-ttl"]);
+		if (cached) {
+			const s = createSpinner(quiet);
+			s.start("Checking cached messages");
+			s.stop(`Changes analyzed ${dim(`(cached ${formatAge(cached.createdAt)})`)}`);
+
+			// Commit rules may have changed since the messages were cached
+			const candidates = [];
+			for (const message of cached.value) {
+				candidates.push({ message, violations: await lintMessage(config, message) });
+			}
+			return {
+				candidates,
+				usage: addUsage(),
+				model: config.model,
+				cachedAt: cached.createdAt,
+			};
+		}
+	}
+
+	const budgetWarning = await checkBudget(config);
+	if (budgetWarning) {
+		console.error(yellow(`⚠ ${budgetWarning}`));
+	}
+
+	const generated = await requestMessages(config, diff, quiet, systemPrompt);
+	await recordUsage(config, generated.usage, generated.model);
+	if (cacheKey) {
+		await writeCache(
+			cacheKey,
+			generated.candidates.map(({ message }) => message),
+			config["cache-size"],
 		);
+	}
+	return generated;
+}
+
+/**
+ * Generate commit messages using the configured provider, then validate them
+ * against the commit rules and ask the model to fix the ones that break them
+ */
+async function requestMessages(
+	config: Awaited<ReturnType<typeof getConfig>>,
+	diff: string,
+	quiet: boolean,
+	systemPrompt: string,
+): Promise<{ candidates: CommitCandidate[]; usage: TokenUsage; model: string }> {
+	const s = quiet
+		? { ...createSpinner(quiet), preview: () => {} }
+		: createPreviewSpinner();
+	let status = "The AI is analyzing your changes";
+	s.start(status);
+
+	// Each step gets its own spinner line
+	const setStatus = (message: string) => {
+		s.stop(status);
+		status = message;
+		s.start(status);
+	};
+
+	// Ctrl+C aborts the requests in flight instead of killing the process
+	const controller = new AbortController();
+	const abort = () => controller.abort();
+	process.once("SIGINT", abort);
+
+	// Messages streamed so far, shown under the spinner
+	const streamed: string[] = [];
 
-		if (messages.length === 0) {
-			throw new KnownError("No commit messages were generated. Try again.");
+	let stopMessage = "Changes analyzed";
+	try {
+		const result = await generateCommitMessage(config, diff, {
+			onProgress: setStatus,
+			systemPrompt,
+			signal: controller.signal,
+			onToken:
+				quiet || !config.stream
+					? undefined
+					: (index, text) => {
+							streamed[index] = text;
+							s.preview(streamed);
+					  },
+		});
+
+		if (result.summarizedFiles > 0) {
+			stopMessage = `Changes analyzed (${result.summarizedFiles} file${
+				result.summarizedFiles > 1 ? "s" : ""
+			} summarised, ${result.verbatimFiles} sent verbatim)`;
 		}
 
-		return messages;
+		if (result.messages.length === 0) {
+			throw new ProviderError("No commit messages were generated. Try again.");
+		}
+
+		let usage = result.usage;
+		if (!config.lint) {
+			return {
+				candidates: result.messages.map((message) => ({ message, violations: [] })),
+				usage,
+				model: result.model,
+			};
+		}
+
+		const rules = await loadLintRules(config);
+		let candidates = result.messages.map((message) => ({
+			message,
+			violations: lintCommitMessage(message, rules),
+		}));
+
+		for (let attempt = 1; attempt <= config["lint-retries"]; attempt += 1) {
+			const failing = candidates.filter(({ violations }) => violations.length > 0);
+			if (failing.length === 0) {
+				break;
+			}
+
+			setStatus(
+				`Fixing ${failing.length} non-compliant message${
+					failing.length > 1 ? "s" : ""
+				} (attempt ${attempt}/${config["lint-retries"]})`,
+			);
+
+			candidates = await Promise.all(
+				candidates.map(async (candidate) => {
+					if (candidate.violations.length === 0) {
+						return candidate;
+					}
+
+					const { message: fixed, usage: fixUsage } = await fixCommitMessage(
+						config,
+						result,
+						candidate.message,
+						candidate.violations,
+						controller.signal,
+					);
+					usage = addUsage(usage, fixUsage);
+					return fixed
+						? { message: fixed, violations: lintCommitMessage(fixed, rules) }
+						: candidate;
+				}),
+			);
+		}
+
+		// Fixing can produce the same message twice
+		return {
+			candidates: candidates.filter(
+				(candidate, index) =>
+					candidates.findIndex(({ message }) => message === candidate.message) === index,
+			),
+			usage,
+			model: result.model,
+		};
+	} catch (error) {
+		if (error instanceof CancelledError) {
+			stopMessage = "Generation cancelled";
+		}
+		throw error;
 	} finally {
-		s.stop("Changes analyzed");
+		process.off("SIGINT", abort);
+		s.stop(stopMessage);
 	}
 }
 
 /**
- * Let the user select a commit message
+ * Check a message against the commit rules, if enabled
+ * The branch prefix isn't part of the message the rules apply to, so it is removed first.
  */
-async function selectCommitMessage(messages: string[]): Promise<string | null> {
-	// If there's only one message, ask for confirmation
-	if (messages.length === 1) {
-		const [message] = messages;
-		const confirmed = await confirm({
-			message: `Use this commit message?\n\n   ${message}\n`,
-		});
+async function lintMessage(
+	config: Awaited<ReturnType<typeof getConfig>>,
+	message: string,
+): Promise<string[]> {
+	if (!config.lint) {
+		return [];
+	}
+
+	const unprefixed = config["use-branch-prefix"]
+		? stripBranchPrefix(message, await getCurrentBranch().catch(() => ""), config)
+		: message;
+	return lintCommitMessage(unprefixed, await loadLintRules(config));
+}
+
+/**
+ * Split a commit message into its subject line and body
+ */
+export function splitMessage(message: string): { subject: string; body: string } {
+	const [subject, ...body] = message.split("\n");
+	return { subject, body: body.join("\n").trim() };
+}
+
+/**
+ * Describe the commit rules a message breaks
+ */
+function formatViolations(violations: string[]): string {
+	return violations.map((violation) => yellow(`⚠ ${violation}`)).join("\n");
+}
 
-		if (!confirmed || isCancel(confirmed)) {
-			return null;
+/**
+ * What the user picked in the message picker
+ */
+type PickerChoice =
+	| { action: "use" | "edit" | "editor"; message: string }
+	| { action: "regenerate" | "hint" | "switch" };
+
+/**
+ * Let the user select a commit message, or pick an action to refine the messages
+ * Messages that still break the commit rules are flagged
+ */
+async function selectCommitMessage(
+	candidates: CommitCandidate[],
+	cached: boolean,
+	trailers: string[],
+): Promise<PickerChoice | null> {
+	// Preview the bodies, the picker itself only shows subject lines
+	if (candidates.length > 1) {
+		for (const [index, { message }] of candidates.entries()) {
+			const { subject, body } = splitMessage(message);
+			if (body) {
+				note(body, `${index + 1}. ${subject}`);
+			}
+		}
+		if (trailers.length > 0) {
+			note(dim(trailers.join("\n")), "Trailers added to the message");
 		}
+	}
 
-		return message;
+	const actions: { label: string; value: PickerChoice }[] = [
+		{
+			label: cached ? "Generate fresh" : "Regenerate",
+			value: { action: "regenerate" },
+		},
+		{ label: "Regenerate with a hint…", value: { action: "hint" } },
+		{ label: "Switch type or locale…", value: { action: "switch" } },
+	];
+
+	// If there's only one message, preview it and offer to use or edit it
+	if (candidates.length === 1) {
+		const [{ message, violations }] = candidates;
+		// Trailers are added when committing, they aren't part of the editable message
+		const preview = [
+			...message.split("\n"),
+			...(trailers.length > 0 ? ["", ...trailers.map((trailer) => dim(trailer))] : []),
+		]
+			.map((line) => `   ${line}`)
+			.join("\n");
+		const warning = violations.length > 0 ? `\n${formatViolations(violations)}\n` : "";
+
+		const selected = await select({
+			message: `Use this commit message?\n\n${preview}\n${warning}`,
+			options: [
+				{ label: "Yes, commit", value: { action: "use", message } },
+				{ label: "Edit inline…", value: { action: "edit", message } },
+				{ label: "Open in editor…", value: { action: "editor", message } },
+				...actions,
+			],
+		});
+
+		return isCancel(selected) ? null : (selected as PickerChoice);
 	}
 
 	// If there are multiple messages, let the user select one
 	const selected = await select({
 		message: `Pick a commit message to use: ${dim("(Ctrl+c to exit)")}`,
-		options: messages.map((value) => ({ label: value, value })),
+		options: [
+			...candidates.map(({ message, violations }, index) => ({
+				label: `${index + 1}. ${splitMessage(message).subject}${
+					violations.length > 0 ? ` ${yellow("⚠")}` : ""
+				}`,
+				value: { action: "use", message },
+				hint: violations.length > 0 ? violations.join("; ") : undefined,
+			})),
+			{ label: dim("Edit a message inline…"), value: { action: "edit", message: "" } },
+			{
+				label: dim("Edit a message in editor…"),
+				value: { action: "editor", message: "" },
+			},
+			...actions.map(({ label, value }) => ({ label: dim(label), value })),
+		],
 	});
 
 	if (isCancel(selected)) {
 		return null;
 	}
 
-	return selected as string;
+	// Ask which message to edit
+	const choice = selected as PickerChoice;
+	if ((choice.action === "edit" || choice.action === "editor") && !choice.message) {
+		const message = await select({
+			message: "Which message do you want to edit?",
+			options: candidates.map(({ message }, index) => ({
+				label: `${index + 1}. ${splitMessage(message).subject}`,
+				value: message,
+			})),
+		});
+
+		return isCancel(message)
+			? null
+			: { action: choice.action, message: message as string };
+	}
+
+	return choice;
 }
 
 /**
- * Apply branch prefix to a commit message if enabled
+ * Edit the subject line of a message inline, keeping its body
  */
-async function applyBranchPrefix(
+async function editMessageInline(message: string): Promise<string | null> {
+	const { subject, body } = splitMessage(message);
+	const edited = await text({
+		message: "Edit the commit message:",
+		initialValue: subject,
+		validate: (value) => (value.trim() ? undefined : "The message can't be empty"),
+	});
+
+	if (isCancel(edited)) {
+		return null;
+	}
+
+	return body ? `${edited.trim()}\n\n${body}` : edited.trim();
+}
+
+/**
+ * Edit a message in the user's git editor, dropping comment lines like git does
+ */
+async function editMessageInEditor(message: string): Promise<string | null> {
+	const file = await getGitPath("AICOMMITS_EDITMSG");
+	await fs.writeFile(
+		file,
+		`${message}\n\n# Edit the commit message. Lines starting with '#' are ignored.\n`,
+		"utf8",
+	);
+
+	try {
+		await openInEditor(file);
+		const edited = (await fs.readFile(file, "utf8"))
+			.split("\n")
+			.filter((line) => !line.startsWith("#"))
+			.join("\n")
+			.trim();
+
+		return edited || null;
+	} finally {
+		await fs.rm(file, { force: true });
+	}
+}
+
+/**
+ * Ask for a commit type and locale to use for the rest of this run
+ */
+async function switchTypeAndLocale(
+	config: Awaited<ReturnType<typeof getConfig>>,
+): Promise<Awaited<ReturnType<typeof getConfig>> | null> {
+	const type = await select({
+		message: "Commit type:",
+		initialValue: config.type,
+		options: getCommitTypeNames().map((name) => ({
+			label: name || "standard",
+			value: name,
+		})),
+	});
+	if (isCancel(type)) {
+		return null;
+	}
+
+	const locale = await text({
+		message: "Message language:",
+		initialValue: config.locale,
+		validate: (value) => {
+			try {
+				parseConfigValue("locale", value);
+			} catch (error) {
+				return (error as Error).message;
+			}
+		},
+	});
+	if (isCancel(locale)) {
+		return null;
+	}
+
+	return { ...config, type, locale: parseConfigValue("locale", locale) };
+}
+
+/**
+ * Add the ticket of the current branch to a commit message, as configured by the
+ * `branch-prefix-*` keys. Protected branches and detached HEADs are left alone.
+ */
+export async function applyBranchPrefix(
 	message: string,
-	useBranchPrefix: boolean,
+	config: Awaited<ReturnType<typeof getConfig>>,
 	debug?: boolean,
 ): Promise<string> {
-	// Create a debug info string to display later
-	const debugInfo = [];
-
-	if (!useBranchPrefix) {
+	if (!config["use-branch-prefix"]) {
 		return message;
 	}
 
 	try {
-		// Get the current branch name
+		// Empty for a detached HEAD
 		const branchName = await getCurrentBranch();
-
-		// Extract ticket ID or clean branch name
-		const ticketIdMatch = branchName.match(/([A-Z]+-\d+)/i);
-		let prefix: string;
-
-		if (ticketIdMatch) {
-			prefix = ticketIdMatch[0].toUpperCase();
-		} else {
-			// Clean the branch name to get a meaningful prefix
-			prefix = branchName
-				.replace(/^(feature|fix|bugfix|hotfix|release|chore)\//, "") // Remove common prefixes
-				.replace(/[-_]/g, " ") // Replace dashes and underscores with spaces
-				.replace(/\s+/g, " ") // Replace multiple spaces with a single space
-				.trim();
-		}
-
-		// Format the prefix
-		const finalMessage = `${prefix}: ${message}`;
+		const result = formatBranchPrefix(message, branchName, config);
 
 		// Display debug info only if debug mode is enabled
 		if (debug) {
-			console.log("\n--- BRANCH PREFIX DEBUG INFO ---");
-			console.log(`Current branch: ${branchName}`);
-			console.log(`Prefix: ${prefix}`);
-			console.log(`Final message: ${finalMessage}`);
-			console.log("-------------------------------\n");
+			console.error("\n--- BRANCH PREFIX DEBUG INFO ---");
+			console.error(`Current branch: ${branchName || "(detached HEAD)"}`);
+			console.error(
+				result.skipped ? `Skipped: ${result.skipped}` : `Prefix: ${result.prefix}`,
+			);
+			console.error(`Final message: ${result.message}`);
+			console.error("-------------------------------\n");
 		}
 
-		return finalMessage;
+		return result.message;
 	} catch (error) {
 		// If there's an error, return the original message
 		if (debug) {
@@ -217,23 +731,23 @@ async function applyBranchPrefix(
  * Create the commit with the selected message
  */
 async function createCommit(
-	message: string,
+	selectedMessage: string,
+	trailers: string[],
 	rawArgv: string[],
-	useBranchPrefix: boolean,
 	noVerify: boolean,
 	debug?: boolean,
 ): Promise<void> {
-	// The message may already have the branch prefix applied
-	// Only apply it if useBranchPrefix is true
-	const finalMessage = useBranchPrefix
-		? await applyBranchPrefix(message, true, debug)
-		: message;
+	const message = await addTrailers(selectedMessage, trailers);
+
+	// Keep the message around in case a hook or signing fails, without the trailers
+	// so they aren't added twice when it is reused
+	const savedFile = await saveCommitMessage(selectedMessage);
 
 	// Copy the selected message to clipboard
 	let clipboardSuccess = false;
 	try {
 		// Make sure we're using the write method correctly
-		await clipboardy.write(finalMessage);
+		await clipboardy.write(message);
 		clipboardSuccess = true;
 	} catch (error) {
 		console.error("Failed to copy to clipboard:", error);
@@ -243,9 +757,38 @@ async function createCommit(
 	if (noVerify) {
 		commitArgs.push("-n");
 	}
-	commitArgs.push("-m", finalMessage, ...rawArgv);
+	// Pass the body as a separate paragraph so git keeps it apart from the subject
+	const { subject, body } = splitMessage(message);
+	commitArgs.push("-m", subject);
+	if (body) {
+		commitArgs.push("-m", body);
+	}
+	commitArgs.push(...rawArgv);
+
+	const result = await execa("git", commitArgs, { reject: false, all: true });
+	if (result.failed) {
+		const output = (result.all ?? "")
+			.trim()
+			.split("\n")
+			.map((line) => dim(`│ ${line}`))
+			.join("\n");
+
+		throw new GitError(
+			[
+				`git commit failed with exit code ${result.exitCode}${output ? ":" : ""}`,
+				output,
+				`The message was saved to ${savedFile}`,
+				"Run aicommits again to reuse it, or commit it with:",
+				`  git commit -e --cleanup=scissors -F ${savedFile}${trailers
+					.map((trailer) => ` --trailer "${trailer}"`)
+					.join("")}`,
+			]
+				.filter(Boolean)
+				.join("\n"),
+		);
+	}
 
-	await execa("git", commitArgs);
+	await removeSavedCommitMessage();
 
 	if (clipboardSuccess) {
 		outro(
@@ -258,117 +801,462 @@ async function createCommit(
 	}
 }
 
+/**
+ * Split the staged changes into several commits planned by the model,
+ * and create them once the user accepts the plan
+ */
+async function splitIntoCommits(
+	config: Awaited<ReturnType<typeof getConfig>>,
+	diff: string,
+	style: CommitStyle | undefined,
+	{
+		trailers,
+		yes,
+		noVerify,
+		debug,
+	}: { trailers: string[]; yes?: boolean; noVerify?: boolean; debug?: boolean },
+): Promise<void> {
+	const files = await getStagedFiles();
+	let hint: string | undefined;
+	let groups: CommitGroup[] | undefined;
+
+	while (!groups) {
+		// Unlike the clack spinner, it leaves Ctrl+C to the abort handler below
+		const s = createPreviewSpinner();
+		let status = "The AI is planning your commits";
+		s.start(status);
+
+		// Ctrl+C aborts the requests in flight instead of killing the process
+		const controller = new AbortController();
+		const abort = () => controller.abort();
+		process.once("SIGINT", abort);
+
+		let stopMessage = "Commits planned";
+		let planned: CommitGroup[];
+		try {
+			const budgetWarning = await checkBudget(config);
+			if (budgetWarning) {
+				console.error(yellow(`⚠ ${budgetWarning}`));
+			}
+
+			const plan = await planCommitSplit(config, diff, files, {
+				hint,
+				style,
+				signal: controller.signal,
+				onProgress: (message) => {
+					s.stop(status);
+					status = message;
+					s.start(status);
+				},
+			});
+			await recordUsage(config, plan.usage, plan.model);
+			planned = plan.groups;
+		} catch (error) {
+			if (error instanceof CancelledError) {
+				stopMessage = "Planning cancelled";
+			}
+			throw error;
+		} finally {
+			process.off("SIGINT", abort);
+			s.stop(stopMessage);
+		}
+
+		// Show the plan, with the branch prefix applied after checking the commit rules
+		for (const [index, group] of planned.entries()) {
+			const violations = await lintMessage(config, group.message);
+			if (config["use-branch-prefix"]) {
+				group.message = await applyBranchPrefix(group.message, config, debug);
+			}
+
+			note(
+				[
+					group.message,
+					trailers.length > 0 ? dim(trailers.join("\n")) : "",
+					violations.length > 0 ? formatViolations(violations) : "",
+					dim(group.files.join("\n")),
+				]
+					.filter(Boolean)
+					.join("\n\n"),
+				`Commit ${index + 1}/${planned.length}`,
+			);
+		}
+
+		if (yes) {
+			groups = planned;
+			break;
+		}
+
+		const choice = await select({
+			message: `Create these ${planned.length} commits?`,
+			options: [
+				{ label: "Yes, create the commits", value: "commit" },
+				{ label: "Regenerate the plan", value: "regenerate" },
+				{ label: "Regenerate with a hint…", value: "hint" },
+			],
+		});
+
+		if (isCancel(choice)) {
+			outro("Split cancelled");
+			return;
+		}
+
+		if (choice === "commit") {
+			groups = planned;
+		} else if (choice === "hint") {
+			const answer = await text({
+				message: "How should the changes be split?",
+				placeholder: "keep the refactoring separate",
+			});
+			if (!isCancel(answer) && answer.trim()) {
+				hint = answer.trim();
+			}
+		}
+	}
+
+	for (const group of groups) {
+		group.message = await addTrailers(group.message, trailers);
+	}
+
+	const s = spinner();
+	s.start(`Creating ${groups.length} commits`);
+	try {
+		await commitFileGroups(groups, noVerify ? ["-n"] : []);
+	} finally {
+		s.stop(`Created ${groups.length} commits`);
+	}
+
+	outro(`${green("✔")} Successfully committed!`);
+}
+
+/**
+ * Details of a run, printed with `--json`
+ */
+type RunResult = {
+	candidates: CommitCandidate[];
+	files: string[];
+	excluded: ExcludedFile[];
+	// Added to the message when committing
+	trailers: string[];
+	provider: string;
+	model: string;
+	usage: TokenUsage;
+	// Estimated cost in USD, undefined if the model's price is unknown
+	cost?: number;
+	// Whether the messages were reused from an earlier run
+	cached: boolean;
+	generationMs: number;
+	totalMs: number;
+};
+
+/**
+ * Print the generated messages instead of committing
+ * `print` writes the messages separated by blank lines, `json` the full run details
+ */
+function printResult(output: Exclude<OutputMode, "interactive">, result: RunResult) {
+	if (output === "print") {
+		console.log(result.candidates.map(({ message }) => message).join("\n\n"));
+		return;
+	}
+
+	console.log(
+		JSON.stringify(
+			{
+				candidates: result.candidates.map(({ message, violations }) => ({
+					...splitMessage(message),
+					message,
+					violations,
+				})),
+				files: result.files,
+				excluded: result.excluded,
+				trailers: result.trailers,
+				provider: result.provider,
+				model: result.model,
+				cached: result.cached,
+				usage: {
+					...result.usage,
+					totalTokens: result.usage.promptTokens + result.usage.completionTokens,
+					estimatedCost: result.cost ?? null,
+				},
+				timing: {
+					generationMs: result.generationMs,
+					totalMs: result.totalMs,
+				},
+			},
+			null,
+			2,
+		),
+	);
+}
+
 /**
  * Main aicommits command handler
  */
 async function aicommitsHandler({
 	generate,
 	excludeFiles,
+	coAuthors,
 	stageAll,
 	commitType,
 	useBranchPrefix,
 	capitalizeMessage,
+	body,
 	debug,
 	noVerify,
+	yes,
+	output = "interactive",
+	rev,
+	force,
+	split,
 	rawArgv,
 }: AicommitsOptions): Promise<void> {
+	const startedAt = Date.now();
+	const quiet = output !== "interactive";
+
 	try {
 		// Initialize and show welcome message
-		intro(bgCyan(black(" aicommits ")));
+		if (!quiet) {
+			intro(bgCyan(black(" aicommits ")));
+		}
 
 		// Verify we're in a git repository
 		await assertGitRepo();
 
+		if (split && (rev || quiet)) {
+			throw new ConfigError(
+				"--split can't be combined with --print, --json or rewording a commit",
+			);
+		}
+
+		// Resolve the commit to reword, it must not be pushed yet
+		const commit = rev ? await resolveCommit(rev) : undefined;
+		if (commit && !force) {
+			await assertNotPushed(commit);
+		}
+
 		// Stage all changes if requested
-		if (stageAll) {
+		if (stageAll && !commit) {
 			await stageAllChanges();
 		}
 
-		// Get staged changes
-		const staged = await getStagedChanges(excludeFiles);
-
 		// Load configuration
 		const config = await loadConfig({
 			generate,
 			commitType,
 			useBranchPrefix,
 			capitalizeMessage,
+			body,
 		});
 
 		// Only show debug information if explicitly enabled
 		if (debug) {
-			console.log("\n--- CONFIG DEBUG INFO ---");
-			console.log("Configuration:", config);
-			console.log("Branch prefix enabled:", Boolean(config["use-branch-prefix"]));
-			console.log("Capitalize message enabled:", Boolean(config["capitalize-message"]));
-			console.log("-------------------------\n");
+			console.error("\n--- CONFIG DEBUG INFO ---");
+			console.error("Configuration:", config);
+			console.error("Branch prefix enabled:", Boolean(config["use-branch-prefix"]));
+			console.error("Capitalize message enabled:", Boolean(config["capitalize-message"]));
+			console.error("-------------------------\n");
 		}
 
-		// IMPORTANT: Check if branch prefix is enabled in config file directly
-		if (useBranchPrefix || config["use-branch-prefix"]) {
-			config["use-branch-prefix"] = true;
+		// Get staged changes or the changes of the commit to reword,
+		// skipping files excluded by flag or config
+		const excluded = [...config.exclude, ...excludeFiles];
+		const staged = redactChanges(
+			config,
+			commit
+				? await getCommitChanges(commit, excluded, config, quiet)
+				: await getStagedChanges(excluded, config, quiet),
+			quiet,
+			debug,
+		);
+
+		// Learn the commit style from the repository's history if enabled
+		const style = await loadCommitStyle(config, staged.files);
+		if (debug && style) {
+			console.error("\n--- COMMIT STYLE DEBUG INFO ---");
+			console.error(`Commits analyzed: ${style.examples.length}`);
+			console.error(
+				`Conventional: ${
+					style.conventional ? `yes (types: ${style.types.join(", ")})` : "no"
+				}`,
+			);
+			console.error(`Scopes: ${style.scopes.join(", ") || "none"}`);
+			console.error(
+				`Ticket prefix: ${
+					style.ticketPrefix
+						? `${style.ticketPrefix.trim()} (projects: ${style.ticketKeys.join(", ")})`
+						: "none"
+				}`,
+			);
+			console.error(`Capitalization: ${style.capitalization}`);
+			console.error("-------------------------------\n");
 		}
 
-		// Check if capitalize message is enabled in config file directly
-		if (capitalizeMessage || config["capitalize-message"]) {
-			config["capitalize-message"] = true;
+		// Trailers are added when committing so they don't count against the commit rules,
+		// a reworded commit keeps the trailers it has
+		const trailers = commit
+			? await getMessageTrailers(await getCommitMessage(commit))
+			: await collectTrailers(config, coAuthors);
+		if (debug) {
+			console.error("\n--- TRAILER DEBUG INFO ---");
+			console.error(trailers.length > 0 ? trailers.join("\n") : "No trailers");
+			console.error("--------------------------\n");
 		}
 
-		// Generate commit messages
-		let messages = await generateMessages(config, staged.diff);
+		if (split) {
+			await splitIntoCommits(config, staged.diff, style, {
+				trailers,
+				yes,
+				noVerify,
+				debug,
+			});
+			return;
+		}
+
+		// Generate commit messages, with the branch prefix applied if enabled
+		let runConfig = config;
+		let usage: TokenUsage = addUsage();
+		let model: string = config.model;
+		let cached = false;
+		const generateCandidates = async (hint?: string, fresh = false) => {
+			// A new message replaces the one saved by a failed commit
+			if (saved) {
+				await removeSavedCommitMessage();
+			}
+
+			const generated = await generateMessages(runConfig, staged.diff, {
+				quiet,
+				style,
+				hint,
+				fresh,
+			});
+			usage = addUsage(usage, generated.usage);
+			model = generated.model;
+			cached = generated.cachedAt !== undefined;
+			if (!runConfig["use-branch-prefix"]) {
+				return generated.candidates;
+			}
 
-		// Apply branch prefix to all messages if enabled
-		if (config["use-branch-prefix"]) {
 			// Apply branch prefix to each message
-			const prefixedMessages = [];
-			for (const msg of messages) {
-				prefixedMessages.push(await applyBranchPrefix(msg, true, debug));
+			const prefixedCandidates = [];
+			for (const candidate of generated.candidates) {
+				prefixedCandidates.push({
+					...candidate,
+					message: await applyBranchPrefix(candidate.message, runConfig, debug),
+				});
 			}
-			messages = prefixedMessages;
+			return prefixedCandidates;
+		};
+
+		// Offer the message of a commit that failed instead of calling the model again
+		const saved = quiet || yes || commit ? undefined : await loadSavedCommitMessage();
+		if (saved) {
+			note(
+				saved.matchesIndex
+					? "The staged changes are the same as when it was written."
+					: yellow("The staged changes differ from when it was written."),
+				"Reusing the message of the last failed commit",
+			);
+		}
+
+		const generationStartedAt = Date.now();
+		let candidates: CommitCandidate[];
+		if (saved) {
+			candidates = [
+				{
+					message: saved.message,
+					violations: await lintMessage(runConfig, saved.message),
+				},
+			];
+			// The picker offers to generate fresh messages instead
+			cached = true;
+		} else {
+			candidates = await generateCandidates();
+		}
+
+		// Only print the messages, nothing is committed
+		if (output !== "interactive") {
+			printResult(output, {
+				candidates,
+				files: staged.files,
+				excluded: staged.excluded,
+				trailers,
+				provider: config.provider,
+				model,
+				usage,
+				cost: estimateCost(usage, model, config),
+				cached,
+				generationMs: Date.now() - generationStartedAt,
+				totalMs: Date.now() - startedAt,
+			});
+			return;
 		}
 
-		// Let the user select a commit message
-		const selectedMessage = await selectCommitMessage(messages);
+		// Let the user select a commit message, every action loops back into the picker
+		let selectedMessage = yes ? candidates[0].message : undefined;
+		while (!selectedMessage) {
+			const choice = await selectCommitMessage(candidates, cached, trailers);
 
-		if (!selectedMessage) {
-			outro("Commit cancelled");
+			if (!choice) {
+				outro("Commit cancelled");
+				return;
+			}
+
+			if (choice.action === "use") {
+				selectedMessage = choice.message;
+			} else if (choice.action === "edit" || choice.action === "editor") {
+				const edited =
+					choice.action === "edit"
+						? await editMessageInline(choice.message)
+						: await editMessageInEditor(choice.message);
+
+				if (edited) {
+					const original = choice.message;
+					const violations = await lintMessage(runConfig, edited);
+					candidates = candidates.map((candidate) =>
+						candidate.message === original ? { message: edited, violations } : candidate,
+					);
+				}
+			} else if (choice.action === "regenerate") {
+				candidates = await generateCandidates(undefined, true);
+			} else if (choice.action === "hint") {
+				const hint = await text({
+					message: "What should the message mention or do differently?",
+					placeholder: "mention the migration",
+				});
+				if (!isCancel(hint) && hint.trim()) {
+					candidates = await generateCandidates(hint.trim(), true);
+				}
+			} else if (choice.action === "switch") {
+				const switched = await switchTypeAndLocale(runConfig);
+				if (switched) {
+					runConfig = switched;
+					candidates = await generateCandidates();
+				}
+			}
+		}
+
+		if (commit) {
+			await rewordCommits(
+				new Map([[commit, await addTrailers(selectedMessage, trailers)]]),
+			);
+			outro(`${green("✔")} Reworded ${commit.slice(0, 7)}`);
 			return;
 		}
 
 		// Create the commit (don't apply branch prefix again since it's already applied)
-		await createCommit(selectedMessage, rawArgv, false, noVerify ?? false, debug);
+		await createCommit(selectedMessage, trailers, rawArgv, noVerify ?? false, debug);
 	} catch (error) {
 		const err = error instanceof Error ? error : new Error(String(error));
-		outro(`${red("✖")} ${err.message}`);
-		handleCliError(err); // Pass the converted error
-		process.exit(1);
+		if (output === "json") {
+			console.log(formatJsonError(err));
+		} else if (output === "print") {
+			console.error(`${red("✖")} ${err.message}`);
+			handleCliError(err);
+		} else {
+			outro(`${red("✖")} ${err.message}`);
+			handleCliError(err); // Pass the converted error
+		}
+		process.exit(getExitCode(err));
 	}
 }
 
-/**
- * Default export for backward compatibility with the existing code
- */
-const aicommits = async (
-	generate: number | undefined,
-	excludeFiles: string[],
-	stageAll: boolean,
-	commitType: string | undefined,
-	useBranchPrefix: boolean | undefined,
-	capitalizeMessage: boolean | undefined,
-	debug: boolean | undefined,
-	noVerify: boolean | undefined,
-	rawArgv: string[],
-): Promise<void> =>
-	aicommitsHandler({
-		generate,
-		excludeFiles,
-		stageAll,
-		commitType,
-		useBranchPrefix,
-		capitalizeMessage,
-		debug,
-		noVerify,
-		rawArgv,
-	});
-
-export default aicommits;
+export default aicommitsHandler;
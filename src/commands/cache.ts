@@ -0,0 +1,42 @@
+import { command } from "cleye";
+import { dim, green, red } from "kolorist";
+import { clearCache, getCacheDir } from "../utils/cache.js";
+import { KnownError, handleCliError } from "../utils/error.js";
+
+export default command(
+	{
+		name: "cache",
+
+		parameters: ["<mode>"],
+
+		help: {
+			description: "Manage cached responses (modes: clear, path)",
+		},
+	},
+	(argv) => {
+		(async () => {
+			const { mode } = argv._;
+
+			if (mode === "clear") {
+				const removed = await clearCache();
+				console.log(
+					`${green("✔")} Cleared ${removed} cached response${
+						removed === 1 ? "" : "s"
+					} ${dim(`(${getCacheDir()})`)}`,
+				);
+				return;
+			}
+
+			if (mode === "path") {
+				console.log(getCacheDir());
+				return;
+			}
+
+			throw new KnownError(`Invalid mode: ${mode}`);
+		})().catch((error) => {
+			console.error(`${red("✖")} ${error.message}`);
+			handleCliError(error);
+			process.exit(1);
+		});
+	},
+);
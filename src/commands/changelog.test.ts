@@ -0,0 +1,109 @@
+import assert from "node:assert/strict";
+import fs from "node:fs/promises";
+import path from "node:path";
+import { after, afterEach, before, beforeEach, describe, it } from "node:test";
+import {
+	type TestRepo,
+	createTestRepo,
+	runCli,
+	sendJson,
+	startServer,
+} from "../utils/testing.js";
+
+describe("changelog command", () => {
+	let server: Awaited<ReturnType<typeof startServer>>;
+	let repo: TestRepo;
+	let hashes: string[];
+
+	const commit = async (file: string, message: string) => {
+		await repo.writeFile(file, `${message}\n`);
+		await repo.git("add", file);
+		await repo.git("commit", "--quiet", "-m", message);
+		return repo.git("rev-parse", "HEAD");
+	};
+
+	before(async () => {
+		server = await startServer((_request, response) => {
+			sendJson(response, {
+				choices: [
+					{
+						message: {
+							content: JSON.stringify({
+								entries: [
+									{
+										commit: hashes[1].slice(0, 7),
+										section: "Added",
+										entry: "Export results as CSV.",
+									},
+									{ commit: hashes[2].slice(0, 7), section: null, entry: null },
+								],
+							}),
+						},
+					},
+				],
+			});
+		});
+	});
+
+	beforeEach(async () => {
+		repo = await createTestRepo();
+		await repo.writeFile(
+			"../home/.aicommits",
+			`provider=openai-compatible\nbase-url=${server.url}\nmodel=test-model\n`,
+		);
+		hashes = [
+			await commit("index.ts", "Initial commit"),
+			await commit("csv.ts", "wip"),
+			await commit("ci.yml", "update ci"),
+			await commit("parser.ts", "fix(parser): handle empty input"),
+			await commit("notes.md", "misc"),
+		];
+	});
+
+	afterEach(() => repo.remove());
+
+	after(() => server.close());
+
+	it("rewrites unclear commits with the model", async () => {
+		const { exitCode, stdout } = await runCli(repo, ["changelog", hashes[0]]);
+
+		assert.equal(exitCode, 0);
+		assert.equal(
+			stdout,
+			[
+				"## [Unreleased]",
+				"",
+				"### Added",
+				"",
+				"- Export results as CSV",
+				"",
+				"### Changed",
+				"",
+				// The model didn't answer for this commit
+				"- Misc",
+				"",
+				"### Fixed",
+				"",
+				"- **parser:** Handle empty input",
+				"",
+			].join("\n"),
+		);
+		const userPrompt = server.requests.at(-1)?.body.messages[1].content;
+		assert.match(userPrompt, new RegExp(`^Commit ${hashes[1].slice(0, 7)}:\nwip\n`));
+		assert.doesNotMatch(userPrompt, /handle empty input/);
+	});
+
+	it("prepends the release to the changelog file", async () => {
+		const { stdout } = await runCli(repo, [
+			"changelog",
+			`${hashes[2]}..HEAD`,
+			"--release",
+			"1.0.0",
+			"--prepend",
+		]);
+
+		assert.match(stdout, /Added 1\.0\.0 to CHANGELOG\.md/);
+		const content = await fs.readFile(path.join(repo.path, "CHANGELOG.md"), "utf8");
+		assert.match(content, /^## \[1\.0\.0\] - \d{4}-\d{2}-\d{2}$/m);
+	});
+});
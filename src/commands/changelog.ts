@@ -0,0 +1,123 @@
+import path from "node:path";
+import { command } from "cleye";
+import { green, red, yellow } from "kolorist";
+import { assertGitRepo, getCommitDiff, getCommitLog } from "../utils/git.js";
+import { getConfig } from "../utils/config.js";
+import { generateChangelogEntries } from "../utils/ai.js";
+import {
+	type ChangelogEntry,
+	getChangelogEntry,
+	parseConventionalCommit,
+	prependToChangelog,
+	renderChangelog,
+} from "../utils/changelog.js";
+import { GitError, getExitCode, handleCliError } from "../utils/error.js";
+import { redactDiff } from "../utils/redact.js";
+import { checkBudget, recordUsage } from "../utils/usage.js";
+
+export default command(
+	{
+		name: "changelog",
+
+		parameters: ["<range>"],
+
+		flags: {
+			release: {
+				type: String,
+				description: "Name of the release, e.g. 1.2.0",
+				default: "Unreleased",
+			},
+			prepend: {
+				type: Boolean,
+				description: "Add the release to the top of the changelog file",
+				default: false,
+			},
+			file: {
+				type: String,
+				description: "Changelog file to prepend to",
+				default: "CHANGELOG.md",
+			},
+		},
+
+		help: {
+			description:
+				"Generate Keep a Changelog release notes for a commit range, e.g. `v1.0.0..HEAD`",
+		},
+	},
+	(argv) => {
+		(async () => {
+			const repoRoot = await assertGitRepo();
+			const config = await getConfig();
+
+			const commits = await getCommitLog(argv._.range);
+			if (commits.length === 0) {
+				throw new GitError(`No commits in ${argv._.range}`);
+			}
+
+			// Conventional commits with a clear description are used as they are,
+			// the model rewrites the rest into user-facing entries
+			const entries = new Map(
+				commits.map(({ hash, message }) => [hash, getChangelogEntry(message)]),
+			);
+			const toRewrite = [];
+			for (const { hash, message } of commits) {
+				if (entries.get(hash) === undefined) {
+					const changes = await getCommitDiff(hash, config.exclude, config);
+					toRewrite.push({
+						hash,
+						message,
+						diff: changes ? redactDiff(changes.diff, config).diff : "",
+					});
+				}
+			}
+
+			if (toRewrite.length > 0) {
+				const budgetWarning = await checkBudget(config);
+				if (budgetWarning) {
+					console.error(yellow(`⚠ ${budgetWarning}`));
+				}
+
+				const rewritten = await generateChangelogEntries(config, toRewrite);
+				await recordUsage(config, rewritten.usage, rewritten.model);
+				for (const { hash, message } of toRewrite) {
+					const entry = rewritten.entries.get(hash);
+					const commit = parseConventionalCommit(message);
+
+					// Keep the subject of commits the model didn't answer for
+					entries.set(
+						hash,
+						entry === undefined
+							? { section: "Changed", text: message.split("\n")[0] }
+							: entry && {
+									...entry,
+									scope: commit?.scope,
+									breaking: commit?.breaking,
+							  },
+					);
+				}
+			}
+
+			const { release } = argv.flags;
+			const markdown = renderChangelog(
+				release,
+				commits
+					.map(({ hash }) => entries.get(hash))
+					.filter((entry): entry is ChangelogEntry => Boolean(entry)),
+				release === "Unreleased" ? undefined : new Date().toISOString().slice(0, 10),
+			);
+
+			if (!argv.flags.prepend) {
+				console.log(markdown);
+				return;
+			}
+
+			const file = path.resolve(repoRoot, argv.flags.file);
+			await prependToChangelog(file, markdown);
+			console.log(`${green("✔")} Added ${release} to ${path.relative(repoRoot, file)}`);
+		})().catch((error) => {
+			console.error(`${red("✖")} ${error.message}`);
+			handleCliError(error);
+			process.exit(getExitCode(error));
+		});
+	},
+);
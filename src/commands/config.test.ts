@@ -0,0 +1,34 @@
+import assert from "node:assert/strict";
+import path from "node:path";
+import { afterEach, beforeEach, describe, it } from "node:test";
+import { type TestRepo, createTestRepo, runCli } from "../utils/testing.js";
+
+describe("config command", () => {
+	let repo: TestRepo;
+
+	beforeEach(async () => {
+		repo = await createTestRepo();
+	});
+
+	afterEach(() => repo.remove());
+
+	it("shows which layer each value comes from", async () => {
+		await runCli(repo, ["config", "set", "locale=fr", "generate=2"]);
+		await runCli(repo, ["config", "set", "--local", "locale=de"]);
+
+		const { stdout } = await runCli(repo, [
+			"config",
+			"get",
+			"locale",
+			"generate",
+			"timeout",
+			"--show-origin",
+		]);
+
+		assert.deepEqual(stdout.split("\n"), [
+			`locale=de (repo: ${path.join(repo.path, ".aicommitsrc")})`,
+			`generate=2 (user: ${path.join(repo.home, ".aicommits")})`,
+			"timeout=10000 (default)",
+		]);
+	});
+});
@@ -1,6 +1,6 @@
 import { command } from "cleye";
-import { red } from "kolorist";
-import { hasOwn, getConfig, setConfigs } from "../utils/config.js";
+import { dim, red } from "kolorist";
+import { hasOwn, getConfig, getConfigSources, setConfigs } from "../utils/config.js";
 import { KnownError, handleCliError } from "../utils/error.js";
 
 export default command(
@@ -8,6 +8,20 @@ export default command(
 		name: "config",
 
 		parameters: ["<mode>", "<key=value...>"],
+
+		flags: {
+			local: {
+				type: Boolean,
+				description:
+					"Write to the repository config (.aicommitsrc) instead of ~/.aicommits",
+				default: false,
+			},
+			showOrigin: {
+				type: Boolean,
+				description: "Show which config layer each value comes from",
+				default: false,
+			},
+		},
 	},
 	(argv) => {
 		(async () => {
@@ -15,9 +29,18 @@ export default command(
 
 			if (mode === "get") {
 				const config = await getConfig({}, true);
+				const sources = argv.flags.showOrigin ? await getConfigSources() : {};
 				for (const key of keyValues) {
 					if (hasOwn(config, key)) {
-						console.log(`${key}=${config[key as keyof typeof config]}`);
+						const value = `${key}=${config[key as keyof typeof config]}`;
+						const source = sources[key];
+						console.log(
+							source
+								? `${value} ${dim(
+										`(${source.layer}${source.path ? `: ${source.path}` : ""})`,
+								  )}`
+								: value,
+						);
 					}
 				}
 				return;
@@ -25,7 +48,12 @@ export default command(
 
 			if (mode === "set") {
 				await setConfigs(
-					keyValues.map((keyValue) => keyValue.split("=") as [string, string]),
+					// Only the first `=` separates the key, values may contain more
+					keyValues.map((keyValue) => {
+						const [key, ...value] = keyValue.split("=");
+						return [key, value.join("=")] as [string, string];
+					}),
+					argv.flags.local,
 				);
 				return;
 			}
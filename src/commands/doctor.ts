@@ -0,0 +1,131 @@
+import { command } from "cleye";
+import { dim, green, red } from "kolorist";
+import { type ConfigSource, getConfig, getConfigSources } from "../utils/config.js";
+import { KnownError, handleCliError } from "../utils/error.js";
+import {
+	checkConnection,
+	getCertificateAuthorities,
+	getNetworkError,
+	resolveProxy,
+} from "../utils/http.js";
+import {
+	type Provider,
+	getNetworkOptions,
+	getProvider,
+} from "../utils/providers/index.js";
+
+/**
+ * Hide the password of a proxy URL
+ */
+const maskProxy = (proxy: string) => proxy.replace(/\/\/([^:@/]+):[^@/]+@/, "//$1:***@");
+
+/**
+ * Describe where a config value comes from, e.g. `(env)` or `(user: ~/.aicommits)`
+ */
+const formatSource = ({ layer, path }: ConfigSource) =>
+	dim(`(${layer}${path ? `: ${path}` : ""})`);
+
+export default command(
+	{
+		name: "doctor",
+
+		flags: {
+			network: {
+				type: Boolean,
+				description: "Check the connection to the provider, with the proxy and CA used",
+				default: false,
+			},
+		},
+
+		help: {
+			description: "Check the setup for common problems",
+		},
+	},
+	(argv) => {
+		(async () => {
+			let failures = 0;
+			const pass = (message: string) => console.log(`${green("✔")} ${message}`);
+			const fail = (message: string) => {
+				failures += 1;
+				console.log(`${red("✖")} ${message}`);
+			};
+
+			const config = await getConfig();
+			pass(`Config: provider ${config.provider}, model ${config.model || "(none)"}`);
+
+			let provider: Provider | undefined;
+			try {
+				provider = getProvider(config);
+				pass(`${provider.name} settings complete`);
+			} catch (error) {
+				fail((error as Error).message);
+			}
+
+			if (argv.flags.network && provider) {
+				const network = getNetworkOptions(config);
+				const target = new URL(provider.baseUrl);
+				const sources = await getConfigSources();
+
+				console.log(`\nEndpoint  ${provider.baseUrl}`);
+
+				const { proxy, bypassed } = resolveProxy(target, network);
+				console.log(
+					`Proxy     ${
+						proxy
+							? `${maskProxy(proxy)} ${formatSource(sources.proxy)}`
+							: bypassed
+							  ? `none, ${maskProxy(network.proxy ?? "")} bypassed ${dim(
+										`(${bypassed})`,
+								  )}`
+							  : "none"
+					}`,
+				);
+				if (network.noProxy?.length) {
+					console.log(
+						`No proxy  ${network.noProxy.join(", ")} ${formatSource(
+							sources["no-proxy"],
+						)}`,
+					);
+				}
+
+				console.log(
+					`CA        ${
+						network.caFile
+							? `${network.caFile} and the bundled certificates ${formatSource(
+									sources["ca-file"],
+							  )}`
+							: "bundled certificates"
+					}\n`,
+				);
+
+				try {
+					getCertificateAuthorities(network.caFile);
+					const { status, duration } = await checkConnection(provider.baseUrl, {
+						timeout: config.timeout,
+						network,
+					});
+					if (status === 407) {
+						fail("The proxy requires authentication, add the credentials to its URL");
+					} else {
+						pass(
+							`Connected to ${target.host} in ${duration}ms ${dim(`(HTTP ${status})`)}`,
+						);
+					}
+				} catch (error) {
+					fail(
+						(getNetworkError(error, target.host) ?? (error as Error)).message ||
+							`Failed to connect to ${target.host}`,
+					);
+				}
+			}
+
+			if (failures > 0) {
+				throw new KnownError(`${failures} check${failures === 1 ? "" : "s"} failed`);
+			}
+		})().catch((error) => {
+			console.error(`${red("✖")} ${error.message}`);
+			handleCliError(error);
+			process.exit(1);
+		});
+	},
+);
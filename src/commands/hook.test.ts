@@ -0,0 +1,73 @@
+import assert from "node:assert/strict";
+import fs from "node:fs/promises";
+import path from "node:path";
+import { afterEach, beforeEach, describe, it } from "node:test";
+import { type TestRepo, createTestRepo, runCli } from "../utils/testing.js";
+
+describe("hook command", () => {
+	let repo: TestRepo;
+	let hookPath: string;
+
+	beforeEach(async () => {
+		repo = await createTestRepo();
+		hookPath = path.join(repo.path, ".git", "hooks", "prepare-commit-msg");
+	});
+
+	afterEach(() => repo.remove());
+
+	it("installs an executable hook calling back into the CLI", async () => {
+		const { exitCode, stdout } = await runCli(repo, ["hook", "install"]);
+
+		assert.equal(exitCode, 0);
+		assert.match(stdout, /Hook installed at .*prepare-commit-msg/);
+		const script = await fs.readFile(hookPath, "utf8");
+		assert.match(script, /^#!\/bin\/sh\n# Installed by aicommits\n/);
+		assert.match(script, / hook run "\$@"\n$/);
+		assert.equal((await fs.stat(hookPath)).mode & 0o111, 0o111);
+	});
+
+	it("installs into core.hooksPath", async () => {
+		await repo.git("config", "core.hooksPath", ".githooks");
+
+		await runCli(repo, ["hook", "install"]);
+
+		assert.ok(await fs.stat(path.join(repo.path, ".githooks", "prepare-commit-msg")));
+	});
+
+	it("leaves hooks it didn't write alone", async () => {
+		await repo.writeFile(".git/hooks/prepare-commit-msg", "#!/bin/sh\nexit 0\n");
+
+		const install = await runCli(repo, ["hook", "install"]);
+		const uninstall = await runCli(repo, ["hook", "uninstall"]);
+
+		assert.equal(install.exitCode, 1);
+		assert.match(install.stderr, /A different prepare-commit-msg hook already exists/);
+		assert.equal(uninstall.exitCode, 1);
+		assert.match(uninstall.stderr, /was not installed by aicommits/);
+		assert.equal(await fs.readFile(hookPath, "utf8"), "#!/bin/sh\nexit 0\n");
+	});
+
+	it("uninstalls its own hook", async () => {
+		await runCli(repo, ["hook", "install"]);
+
+		const { exitCode } = await runCli(repo, ["hook", "uninstall"]);
+
+		assert.equal(exitCode, 0);
+		await assert.rejects(fs.stat(hookPath), { code: "ENOENT" });
+	});
+
+	it("keeps messages the user already supplied", async () => {
+		await repo.writeFile("index.ts", "export {};\n");
+		await repo.git("add", "index.ts");
+		const messageFile = path.join(repo.path, ".git", "COMMIT_EDITMSG");
+
+		for (const source of ["message", "merge", "squash", "commit"]) {
+			await fs.writeFile(messageFile, "Add index\n");
+
+			const { exitCode } = await runCli(repo, ["hook", "run", messageFile, source]);
+
+			assert.equal(exitCode, 0);
+			assert.equal(await fs.readFile(messageFile, "utf8"), "Add index\n", source);
+		}
+	});
+});
@@ -0,0 +1,117 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import { command } from "cleye";
+import { green, red } from "kolorist";
+import { assertGitRepo, getHooksPath } from "../utils/git.js";
+import { fileExists } from "../utils/config.js";
+import { KnownError, handleCliError } from "../utils/error.js";
+import prepareCommitMessage from "./prepare-commit-msg.js";
+
+const hookName = "prepare-commit-msg";
+
+// Marker used to recognise hooks written by aicommits
+const hookMarker = "# Installed by aicommits";
+
+/**
+ * Build the hook script that calls back into this CLI
+ */
+const getHookScript = async () => {
+	const cliPath = await fs.realpath(process.argv[1]);
+
+	return [
+		"#!/bin/sh",
+		hookMarker,
+		`exec ${JSON.stringify(process.execPath)} ${JSON.stringify(cliPath)} hook run "$@"`,
+		"",
+	].join("\n");
+};
+
+/**
+ * Install the `prepare-commit-msg` hook in the current repository
+ */
+const installHook = async () => {
+	const hooksPath = await getHooksPath();
+	const hookPath = path.join(hooksPath, hookName);
+
+	if (await fileExists(hookPath)) {
+		const existing = await fs.readFile(hookPath, "utf8");
+		if (!existing.includes(hookMarker)) {
+			throw new KnownError(
+				`A different ${hookName} hook already exists at ${hookPath}. Remove it first.`,
+			);
+		}
+	}
+
+	await fs.mkdir(hooksPath, { recursive: true });
+	await fs.writeFile(hookPath, await getHookScript(), { mode: 0o755 });
+	await fs.chmod(hookPath, 0o755);
+
+	console.log(`${green("✔")} Hook installed at ${hookPath}`);
+};
+
+/**
+ * Remove the `prepare-commit-msg` hook, but only if aicommits wrote it
+ */
+const uninstallHook = async () => {
+	const hookPath = path.join(await getHooksPath(), hookName);
+
+	if (!(await fileExists(hookPath))) {
+		throw new KnownError("The aicommits hook is not installed");
+	}
+
+	const existing = await fs.readFile(hookPath, "utf8");
+	if (!existing.includes(hookMarker)) {
+		throw new KnownError(
+			`The ${hookName} hook at ${hookPath} was not installed by aicommits. Refusing to remove it.`,
+		);
+	}
+
+	await fs.rm(hookPath);
+
+	console.log(`${green("✔")} Hook uninstalled`);
+};
+
+export default command(
+	{
+		name: "hook",
+
+		parameters: ["<mode>", "[hook-args...]"],
+
+		help: {
+			description: `Install or uninstall the ${hookName} git hook`,
+		},
+	},
+	(argv) => {
+		(async () => {
+			const { mode, hookArgs } = argv._;
+
+			// Entry point called by the installed hook itself
+			if (mode === "run") {
+				const [messageFile, source] = hookArgs;
+				if (!messageFile) {
+					throw new KnownError("Missing commit message file");
+				}
+				await prepareCommitMessage(messageFile, source);
+				return;
+			}
+
+			await assertGitRepo();
+
+			if (mode === "install") {
+				await installHook();
+				return;
+			}
+
+			if (mode === "uninstall") {
+				await uninstallHook();
+				return;
+			}
+
+			throw new KnownError(`Invalid mode: ${mode}`);
+		})().catch((error) => {
+			console.error(`${red("✖")} ${error.message}`);
+			handleCliError(error);
+			process.exit(1);
+		});
+	},
+);
@@ -0,0 +1,45 @@
+import assert from "node:assert/strict";
+import { afterEach, beforeEach, describe, it } from "node:test";
+import { type TestRepo, createTestRepo, runCli } from "../utils/testing.js";
+
+describe("pair command", () => {
+	let repo: TestRepo;
+
+	beforeEach(async () => {
+		repo = await createTestRepo();
+		await repo.git(
+			"commit",
+			"--allow-empty",
+			"-m",
+			"Add index\n\nCo-authored-by: Jane Doe <jane@example.com>",
+		);
+	});
+
+	afterEach(() => repo.remove());
+
+	it("starts, shows and ends a pair session", async () => {
+		const start = await runCli(repo, ["pair", "start", "jane"]);
+		const show = await runCli(repo, ["pair", "show"]);
+		const end = await runCli(repo, ["pair", "end"]);
+		const after = await runCli(repo, ["pair", "show"]);
+
+		assert.equal(start.exitCode, 0);
+		assert.match(
+			start.stdout,
+			/Pairing with Jane Doe <jane@example.com> \(ends in 8 hours\)/,
+		);
+		assert.equal(show.stdout, "Jane Doe <jane@example.com>");
+		assert.equal(end.exitCode, 0);
+		assert.equal(after.stdout, "No pair session running");
+	});
+
+	it("rejects unknown modes and missing co-authors", async () => {
+		const start = await runCli(repo, ["pair", "start"]);
+		const invalid = await runCli(repo, ["pair", "stop"]);
+
+		assert.equal(start.exitCode, 1);
+		assert.match(start.stderr, /Name at least one co-author/);
+		assert.equal(invalid.exitCode, 1);
+		assert.match(invalid.stderr, /Invalid mode: stop/);
+	});
+});
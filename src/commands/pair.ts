@@ -0,0 +1,70 @@
+import { command } from "cleye";
+import { dim, green, red } from "kolorist";
+import { getConfig } from "../utils/config.js";
+import { KnownError, handleCliError } from "../utils/error.js";
+import { assertGitRepo } from "../utils/git.js";
+import {
+	endPairSession,
+	readPairSession,
+	resolveCoAuthors,
+	startPairSession,
+} from "../utils/trailers.js";
+
+export default command(
+	{
+		name: "pair",
+
+		parameters: ["<mode>", "[co-authors...]"],
+
+		help: {
+			description:
+				"Add co-authors to every commit while pairing (modes: start, end, show)",
+		},
+	},
+	(argv) => {
+		(async () => {
+			const { mode, coAuthors } = argv._;
+
+			await assertGitRepo();
+
+			if (mode === "start") {
+				if (coAuthors.length === 0) {
+					throw new KnownError("Name at least one co-author");
+				}
+
+				const session = await startPairSession(await resolveCoAuthors(coAuthors));
+				const { "pair-session-hours": hours } = await getConfig();
+				console.log(
+					`${green("✔")} Pairing with ${session.coAuthors.join(", ")} ${dim(
+						`(ends in ${hours} hours)`,
+					)}`,
+				);
+				return;
+			}
+
+			if (mode === "end") {
+				await endPairSession();
+				console.log(`${green("✔")} Pair session ended`);
+				return;
+			}
+
+			if (mode === "show") {
+				const { "pair-session-hours": hours } = await getConfig();
+				const session = await readPairSession(hours);
+				if (!session) {
+					console.log("No pair session running");
+					return;
+				}
+
+				console.log(session.coAuthors.join("\n"));
+				return;
+			}
+
+			throw new KnownError(`Invalid mode: ${mode}`);
+		})().catch((error) => {
+			console.error(`${red("✖")} ${error.message}`);
+			handleCliError(error);
+			process.exit(1);
+		});
+	},
+);
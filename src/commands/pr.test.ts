@@ -0,0 +1,122 @@
+import assert from "node:assert/strict";
+import fs from "node:fs/promises";
+import path from "node:path";
+import { after, afterEach, before, beforeEach, describe, it } from "node:test";
+import {
+	type TestRepo,
+	createTestRepo,
+	runCli,
+	sendJson,
+	startServer,
+} from "../utils/testing.js";
+
+describe("pr command", () => {
+	let server: Awaited<ReturnType<typeof startServer>>;
+	let repo: TestRepo;
+
+	const commit = async (file: string, message: string) => {
+		await repo.writeFile(file, "export {};\n");
+		await repo.git("add", file);
+		await repo.git("commit", "--quiet", "-m", message);
+	};
+
+	before(async () => {
+		server = await startServer((_request, response) => {
+			sendJson(response, {
+				choices: [
+					{
+						message: {
+							content: JSON.stringify({
+								title: "Add a parser.",
+								summary: "Parses the input before running commands.",
+								changes: ["Add the parser", 42],
+								testing: ["Run the parser on empty input"],
+							}),
+						},
+					},
+				],
+			});
+		});
+	});
+
+	beforeEach(async () => {
+		repo = await createTestRepo();
+		await repo.writeFile(
+			"../home/.aicommits",
+			`provider=openai-compatible\nbase-url=${server.url}\nmodel=test-model\n`,
+		);
+		await commit("index.ts", "Initial commit");
+		await repo.git("checkout", "--quiet", "-b", "feature/parser");
+	});
+
+	afterEach(() => repo.remove());
+
+	after(() => server.close());
+
+	it("describes the changes of the branch since main", async () => {
+		await commit("parser.ts", "Add parser");
+		await commit("cli.ts", "Use parser\n\nIn the CLI");
+
+		const { exitCode, stdout } = await runCli(repo, ["pr"]);
+
+		assert.equal(exitCode, 0);
+		assert.equal(
+			stdout,
+			[
+				"Add a parser",
+				"",
+				"## Summary",
+				"",
+				"Parses the input before running commands.",
+				"",
+				"## Changes",
+				"",
+				"- Add the parser",
+				"",
+				"## Testing",
+				"",
+				"- Run the parser on empty input",
+				"",
+			].join("\n"),
+		);
+		const userPrompt = server.requests.at(-1)?.body.messages[1].content;
+		assert.ok(
+			userPrompt.startsWith("Commits:\n- Add parser\n- Use parser\n  In the CLI\n"),
+		);
+		assert.doesNotMatch(userPrompt, /index\.ts/);
+	});
+
+	it("writes the body from a template to a file", async () => {
+		await commit("parser.ts", "Add parser");
+		// Relative to ~/.aicommits
+		await repo.writeFile("../home/pr.md", "{branch} into {base}\n\n{commits}\n");
+		await runCli(repo, ["config", "set", "pr-template=pr.md"]);
+
+		const { stdout } = await runCli(repo, [
+			"pr",
+			"--output",
+			"body.md",
+			"--base",
+			"main",
+		]);
+
+		assert.equal(stdout, "Add a parser");
+		assert.equal(
+			await fs.readFile(path.join(repo.path, "body.md"), "utf8"),
+			"feature/parser into main\n\n- Add parser\n",
+		);
+	});
+
+	it("fails without changes or a base branch", async () => {
+		const noChanges = await runCli(repo, ["pr"]);
+
+		assert.equal(noChanges.exitCode, 4);
+		assert.match(noChanges.stderr, /has no changes compared to main/);
+
+		await repo.git("branch", "--quiet", "-m", "main", "trunk");
+		const noBase = await runCli(repo, ["pr"]);
+
+		assert.equal(noBase.exitCode, 3);
+		assert.match(noBase.stderr, /Could not detect the base branch/);
+	});
+});
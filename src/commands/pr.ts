@@ -0,0 +1,129 @@
+import fs from "node:fs/promises";
+import { command } from "cleye";
+import { dim, green, red, yellow } from "kolorist";
+import clipboardy from "clipboardy";
+import {
+	assertGitRepo,
+	getBranchDiff,
+	getCommitMessagesSince,
+	getCurrentBranch,
+	getDefaultBranch,
+	getMergeBase,
+} from "../utils/git.js";
+import { getConfig } from "../utils/config.js";
+import { type PullRequest, generatePullRequest } from "../utils/ai.js";
+import {
+	defaultPullRequestTemplate,
+	loadPromptTemplate,
+	renderTemplate,
+} from "../utils/prompt.js";
+import { NoChangesError, getExitCode, handleCliError } from "../utils/error.js";
+import { checkBudget, recordUsage } from "../utils/usage.js";
+import { redactDiff } from "../utils/redact.js";
+
+/**
+ * Render the pull request body from a template
+ */
+const renderBody = (
+	template: string,
+	pullRequest: PullRequest,
+	values: { branch: string; base: string; commits: string[] },
+) => {
+	const asList = (items: string[]) => items.map((item) => `- ${item}`).join("\n");
+
+	return `${renderTemplate(template, {
+		title: pullRequest.title,
+		summary: pullRequest.summary,
+		changes: asList(pullRequest.changes),
+		testing: asList(pullRequest.testing),
+		branch: values.branch,
+		base: values.base,
+		commits: asList(values.commits.map((message) => message.split("\n")[0])),
+	}).trim()}\n`;
+};
+
+export default command(
+	{
+		name: "pr",
+
+		flags: {
+			base: {
+				type: String,
+				description: "Branch the pull request is opened against (default: auto-detect)",
+			},
+			output: {
+				type: String,
+				description:
+					"Write the body to a file (for `gh pr create --body-file`) and print the title",
+				alias: "o",
+			},
+			copy: {
+				type: Boolean,
+				description: "Copy the title and body to the clipboard",
+				alias: "c",
+				default: false,
+			},
+		},
+
+		help: {
+			description: "Generate a pull request title and description for the current branch",
+		},
+	},
+	(argv) => {
+		(async () => {
+			await assertGitRepo();
+
+			const config = await getConfig();
+			const base = argv.flags.base || config["pr-base"] || (await getDefaultBranch());
+			const mergeBase = await getMergeBase(base);
+
+			const changes = await getBranchDiff(mergeBase, config.exclude, config);
+			if (!changes) {
+				throw new NoChangesError(`The current branch has no changes compared to ${base}`);
+			}
+
+			const { diff, sensitiveFiles } = redactDiff(changes.diff, config);
+			if (sensitiveFiles.length > 0) {
+				console.error(
+					yellow(`⚠ Content of sensitive files not sent: ${sensitiveFiles.join(", ")}`),
+				);
+			}
+
+			const budgetWarning = await checkBudget(config);
+			if (budgetWarning) {
+				console.error(yellow(`⚠ ${budgetWarning}`));
+			}
+
+			const commits = await getCommitMessagesSince(mergeBase);
+			const pullRequest = await generatePullRequest(config, diff, commits);
+			await recordUsage(config, pullRequest.usage, pullRequest.model);
+
+			const template = config["pr-template"]
+				? await loadPromptTemplate(config["pr-template"])
+				: defaultPullRequestTemplate;
+			const body = renderBody(template, pullRequest, {
+				branch: await getCurrentBranch(),
+				base,
+				commits,
+			});
+
+			if (argv.flags.output) {
+				await fs.writeFile(argv.flags.output, body, "utf8");
+			}
+
+			if (argv.flags.copy) {
+				await clipboardy.write(`${pullRequest.title}\n\n${body}`);
+				console.error(`${green("✔")} ${dim("Pull request copied to clipboard")}`);
+			}
+
+			// With a body file, only the title is printed so it can be passed to `gh`
+			console.log(
+				argv.flags.output ? pullRequest.title : `${pullRequest.title}\n\n${body}`,
+			);
+		})().catch((error) => {
+			console.error(`${red("✖")} ${error.message}`);
+			handleCliError(error);
+			process.exit(getExitCode(error));
+		});
+	},
+);
@@ -0,0 +1,86 @@
+import fs from "node:fs/promises";
+import { red } from "kolorist";
+import { getStagedDiff } from "../utils/git.js";
+import { getConfig } from "../utils/config.js";
+import { generateCommitMessage } from "../utils/ai.js";
+import { loadCommitStyle } from "../utils/commit-style.js";
+import { handleCliError } from "../utils/error.js";
+import { redactDiff } from "../utils/redact.js";
+import { checkBudget, recordUsage } from "../utils/usage.js";
+
+/**
+ * Commit message sources passed by git that mean the message is already decided
+ * https://git-scm.com/docs/githooks#_prepare_commit_msg
+ */
+const skippedSources = ["message", "merge", "squash", "commit"];
+
+/**
+ * Non-interactive entry point used by the `prepare-commit-msg` hook.
+ * Writes the generated message into the commit message file git passes in.
+ *
+ * @param messageFile Path to the file holding the commit message
+ * @param source Source of the commit message, if any
+ */
+const prepareCommitMessage = async (
+	messageFile: string,
+	source?: string,
+): Promise<void> => {
+	// Skip merges, amends and messages supplied with `-m`/`-F`
+	if (source && skippedSources.includes(source)) {
+		return;
+	}
+
+	try {
+		const config = await getConfig();
+
+		const staged = await getStagedDiff(config.exclude, config);
+		if (!staged) {
+			return;
+		}
+
+		const { diff, sensitiveFiles } = redactDiff(staged.diff, config);
+		if (sensitiveFiles.length > 0) {
+			console.error(
+				`aicommits: content of sensitive files not sent: ${sensitiveFiles.join(", ")}`,
+			);
+		}
+
+		const budgetWarning = await checkBudget(config);
+		if (budgetWarning) {
+			console.error(`aicommits: ${budgetWarning}`);
+		}
+
+		const { messages, usage, model } = await generateCommitMessage(config, diff, {
+			style: await loadCommitStyle(config, staged.files),
+		});
+		await recordUsage(config, usage, model);
+
+		if (messages.length === 0) {
+			return;
+		}
+
+		// Keep whatever git already put in the file (template, status comments)
+		const existing = await fs.readFile(messageFile, "utf8");
+		const [message, ...alternatives] = messages;
+		const alternativesComment =
+			alternatives.length > 0
+				? `# aicommits alternatives:\n${alternatives
+						.flatMap((alternative) => alternative.split("\n"))
+						.map((line) => `#   ${line}`)
+						.join("\n")}\n`
+				: "";
+
+		await fs.writeFile(
+			messageFile,
+			`${message}\n\n${alternativesComment}${existing}`,
+			"utf8",
+		);
+	} catch (error) {
+		// Never block the commit, the user can still write the message themselves
+		const err = error instanceof Error ? error : new Error(String(error));
+		console.error(`${red("✖")} aicommits: ${err.message}`);
+		handleCliError(err);
+	}
+};
+
+export default prepareCommitMessage;
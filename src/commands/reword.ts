@@ -0,0 +1,50 @@
+import { command } from "cleye";
+import aicommits from "./aicommits.js";
+
+export default command(
+	{
+		name: "reword",
+
+		parameters: ["<rev>"],
+
+		flags: {
+			generate: {
+				type: Number,
+				description: "Number of messages to generate (1-5)",
+				alias: "g",
+			},
+			type: {
+				type: String,
+				description: "Type of commit message to generate",
+				alias: "t",
+			},
+			yes: {
+				type: Boolean,
+				description: "Use the first generated message without prompting",
+				alias: "y",
+				default: false,
+			},
+			force: {
+				type: Boolean,
+				description: "Reword the commit even if it was already pushed",
+				default: false,
+			},
+		},
+
+		help: {
+			description: "Generate a new message for an existing commit",
+		},
+	},
+	(argv) => {
+		aicommits({
+			generate: argv.flags.generate,
+			excludeFiles: [],
+			stageAll: false,
+			commitType: argv.flags.type,
+			yes: argv.flags.yes,
+			rev: argv._.rev,
+			force: argv.flags.force,
+			rawArgv: [],
+		});
+	},
+);
@@ -0,0 +1,149 @@
+import { command } from "cleye";
+import { black, bgCyan, dim, green, red, yellow } from "kolorist";
+import { intro, outro, spinner, select, isCancel, note } from "@clack/prompts";
+import {
+	addTrailers,
+	assertGitRepo,
+	getCommitDiff,
+	getCommitMessage,
+	getMessageTrailers,
+	getRangeCommits,
+	rewordCommits,
+} from "../utils/git.js";
+import { getConfig } from "../utils/config.js";
+import { loadCommitStyle } from "../utils/commit-style.js";
+import { GitError, getExitCode, handleCliError } from "../utils/error.js";
+import {
+	applyBranchPrefix,
+	assertNotPushed,
+	generateMessages,
+	redactChanges,
+	splitMessage,
+} from "./aicommits.js";
+
+/**
+ * Propose a new message for every commit of a range and apply the accepted ones
+ */
+const rewriteRange = async (
+	range: string,
+	options: { generate?: number; type?: string; force: boolean },
+) => {
+	intro(bgCyan(black(" aicommits rewrite ")));
+
+	await assertGitRepo();
+
+	const commits = await getRangeCommits(range);
+	if (commits.length === 0) {
+		throw new GitError(`No commits in ${range}`);
+	}
+
+	// Rewording the oldest commit rewrites every commit after it
+	if (!options.force) {
+		await assertNotPushed(commits[0]);
+	}
+
+	const config = await getConfig({
+		generate: options.generate?.toString(),
+		type: options.type,
+	});
+
+	const messages = new Map<string, string>();
+	for (const [index, commit] of commits.entries()) {
+		const title = `${commit.slice(0, 7)} (${index + 1}/${commits.length})`;
+		const current = await getCommitMessage(commit);
+		note(current, title);
+
+		const changes = await getCommitDiff(commit, config.exclude, config);
+		if (!changes) {
+			note(yellow("No changes to describe, keeping the current message"), title);
+			continue;
+		}
+
+		// Secrets and sensitive files are kept from the provider like for new commits
+		const { diff } = redactChanges(config, changes, false);
+		const style = await loadCommitStyle(config, changes.files);
+		const { candidates } = await generateMessages(config, diff, { style });
+
+		// Keep trailers like `Signed-off-by` of the current message
+		const trailers = await getMessageTrailers(current);
+		const choices: { label: string; value: string; hint?: string }[] = [];
+		for (const { message, violations } of candidates) {
+			const proposed = await addTrailers(
+				await applyBranchPrefix(message, config),
+				trailers,
+			);
+			choices.push({
+				label: splitMessage(proposed).subject,
+				value: proposed,
+				hint: violations.length > 0 ? violations.join("; ") : undefined,
+			});
+		}
+
+		const selected = await select({
+			message: `New message for ${commit.slice(0, 7)}: ${dim("(Ctrl+c to exit)")}`,
+			options: [...choices, { label: dim("Skip, keep the current message"), value: "" }],
+		});
+
+		if (isCancel(selected)) {
+			outro("Rewrite cancelled");
+			return;
+		}
+
+		if (selected) {
+			messages.set(commit, selected as string);
+		}
+	}
+
+	if (messages.size === 0) {
+		outro("No commits reworded");
+		return;
+	}
+
+	const s = spinner();
+	s.start(`Rewording ${messages.size} commit${messages.size > 1 ? "s" : ""}`);
+	try {
+		await rewordCommits(messages);
+	} finally {
+		s.stop("Rebase finished");
+	}
+
+	outro(`${green("✔")} Reworded ${messages.size} commit${messages.size > 1 ? "s" : ""}`);
+};
+
+export default command(
+	{
+		name: "rewrite",
+
+		parameters: ["<range>"],
+
+		flags: {
+			generate: {
+				type: Number,
+				description: "Number of messages to generate per commit (1-5)",
+				alias: "g",
+			},
+			type: {
+				type: String,
+				description: "Type of commit message to generate",
+				alias: "t",
+			},
+			force: {
+				type: Boolean,
+				description: "Rewrite commits even if they were already pushed",
+				default: false,
+			},
+		},
+
+		help: {
+			description:
+				"Propose new messages for the commits of a range, e.g. `origin/main..HEAD`",
+		},
+	},
+	(argv) => {
+		rewriteRange(argv._.range, argv.flags).catch((error) => {
+			outro(`${red("✖")} ${error.message}`);
+			handleCliError(error);
+			process.exit(getExitCode(error));
+		});
+	},
+);
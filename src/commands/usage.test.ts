@@ -0,0 +1,77 @@
+import assert from "node:assert/strict";
+import fs from "node:fs/promises";
+import path from "node:path";
+import { after, afterEach, before, describe, it } from "node:test";
+import { type TestRepo, createTestRepo, runCli } from "../utils/testing.js";
+import { getUsageLogPath } from "../utils/usage.js";
+
+describe("usage command", () => {
+	let repo: TestRepo;
+
+	before(async () => {
+		repo = await createTestRepo();
+	});
+
+	afterEach(() => fs.rm(getUsageLogPath(), { force: true }));
+
+	after(() => repo.remove());
+
+	const writeLog = async (...costs: (number | null)[]) => {
+		const date = new Date().toISOString();
+		await fs.mkdir(path.dirname(getUsageLogPath()), { recursive: true });
+		await fs.writeFile(
+			getUsageLogPath(),
+			costs
+				.map((cost, index) =>
+					JSON.stringify({
+						date,
+						repo: "app",
+						provider: "openai",
+						model: index === 0 ? "gpt-4o" : "custom",
+						promptTokens: 1500,
+						completionTokens: 100,
+						cost,
+					}),
+				)
+				.join("\n"),
+		);
+	};
+
+	it("prints a table of the usage per group", async () => {
+		await writeLog(0.25, null);
+		await repo.writeFile("../home/.aicommits", "budget=2\n");
+
+		const { exitCode, stdout } = await runCli(repo, ["usage", "--by", "model"]);
+
+		assert.equal(exitCode, 0);
+		const lines = stdout.split("\n");
+		assert.match(lines[0], /^Usage of the last 30 days by model/);
+		assert.deepEqual(lines.slice(2, 5), [
+			"openai/gpt-4o    1 run   1,500 prompt   100 completion   $0.2500",
+			"openai/custom    1 run   1,500 prompt   100 completion   $0.00 (1 unpriced)",
+			"Total           2 runs   3,000 prompt   200 completion   $0.2500 (1 unpriced)",
+		]);
+		assert.equal(lines.at(-1), "This month: $0.2500 of the $2.00 budget");
+	});
+
+	it("prints the summary as JSON", async () => {
+		await writeLog(0.25);
+		await repo.writeFile("../home/.aicommits", "");
+
+		const { stdout } = await runCli(repo, ["usage", "--json", "--days", "0"]);
+
+		const summary = JSON.parse(stdout);
+		assert.equal(summary.by, "day");
+		assert.equal(summary.days, 0);
+		assert.equal(summary.groups[0].runs, 1);
+		assert.equal(summary.monthlySpend, 0.25);
+		assert.equal(summary.budget, null);
+	});
+
+	it("rejects unknown groupings", async () => {
+		const { exitCode, stderr } = await runCli(repo, ["usage", "--by", "week"]);
+
+		assert.equal(exitCode, 1);
+		assert.match(stderr, /Invalid grouping: week, use day, model, repo/);
+	});
+});
@@ -0,0 +1,152 @@
+import { command } from "cleye";
+import { bold, dim, red, yellow } from "kolorist";
+import { getConfig } from "../utils/config.js";
+import { KnownError, handleCliError } from "../utils/error.js";
+import {
+	type UsageGrouping,
+	type UsageSummary,
+	formatCost,
+	getMonthlySpend,
+	getUsageLogPath,
+	readUsageLog,
+	summarizeUsage,
+	usageGroupings,
+} from "../utils/usage.js";
+
+/**
+ * Format the cost of a group, flagging runs whose price is unknown
+ */
+const formatGroupCost = ({ cost, unpriced }: UsageSummary) =>
+	`${formatCost(cost)}${unpriced > 0 ? dim(` (${unpriced} unpriced)`) : ""}`;
+
+/**
+ * Print the groups as aligned columns with a total
+ */
+const printTable = (summaries: UsageSummary[]) => {
+	const total: UsageSummary = {
+		key: "Total",
+		runs: 0,
+		promptTokens: 0,
+		completionTokens: 0,
+		cost: 0,
+		unpriced: 0,
+	};
+	for (const summary of summaries) {
+		total.runs += summary.runs;
+		total.promptTokens += summary.promptTokens;
+		total.completionTokens += summary.completionTokens;
+		total.cost += summary.cost;
+		total.unpriced += summary.unpriced;
+	}
+
+	const rows = [...summaries, total].map((summary) => [
+		summary.key,
+		`${summary.runs} run${summary.runs === 1 ? "" : "s"}`,
+		`${summary.promptTokens.toLocaleString("en-US")} prompt`,
+		`${summary.completionTokens.toLocaleString("en-US")} completion`,
+		formatGroupCost(summary),
+	]);
+	const widths = rows[0].map((_, column) =>
+		Math.max(...rows.map((row) => row[column].length)),
+	);
+
+	for (const [index, row] of rows.entries()) {
+		const line = row
+			.map((cell, column) =>
+				column === 0 || column === row.length - 1
+					? cell.padEnd(widths[column])
+					: cell.padStart(widths[column]),
+			)
+			.join("   ")
+			.trimEnd();
+		console.log(index === rows.length - 1 ? bold(line) : line);
+	}
+};
+
+export default command(
+	{
+		name: "usage",
+
+		flags: {
+			by: {
+				type: String,
+				description: `Group by ${usageGroupings.join(", ")} (default: day)`,
+				default: "day",
+			},
+			days: {
+				type: Number,
+				description: "Only include the last number of days, 0 for all (default: 30)",
+				default: 30,
+			},
+			json: {
+				type: Boolean,
+				description: "Print the summary as JSON",
+				default: false,
+			},
+		},
+
+		help: {
+			description: "Summarize token usage and estimated cost from the local usage log",
+		},
+	},
+	(argv) => {
+		(async () => {
+			const { by, days, json } = argv.flags;
+			if (!usageGroupings.includes(by as UsageGrouping)) {
+				throw new KnownError(`Invalid grouping: ${by}, use ${usageGroupings.join(", ")}`);
+			}
+			if (!Number.isInteger(days) || days < 0) {
+				throw new KnownError("--days must be a positive integer");
+			}
+
+			const config = await getConfig();
+			const records = await readUsageLog();
+			const since = days > 0 ? Date.now() - days * 24 * 60 * 60 * 1000 : 0;
+			const summaries = summarizeUsage(
+				records.filter(({ date }) => new Date(date).getTime() >= since),
+				by as UsageGrouping,
+			);
+			const monthlySpend = getMonthlySpend(records);
+
+			if (json) {
+				console.log(
+					JSON.stringify(
+						{
+							by,
+							days,
+							groups: summaries,
+							monthlySpend,
+							budget: config.budget || null,
+						},
+						null,
+						2,
+					),
+				);
+				return;
+			}
+
+			if (summaries.length === 0) {
+				console.log(`No usage recorded ${dim(`(${getUsageLogPath()})`)}`);
+				return;
+			}
+
+			console.log(
+				`Usage ${days > 0 ? `of the last ${days} days ` : ""}by ${by} ${dim(
+					`(${getUsageLogPath()})`,
+				)}\n`,
+			);
+			printTable(summaries);
+
+			if (config.budget) {
+				const line = `\nThis month: ${formatCost(monthlySpend)} of the ${formatCost(
+					config.budget,
+				)} budget`;
+				console.log(monthlySpend >= config.budget ? yellow(line) : line);
+			}
+		})().catch((error) => {
+			console.error(`${red("✖")} ${error.message}`);
+			handleCliError(error);
+			process.exit(1);
+		});
+	},
+);
@@ -0,0 +1,214 @@
+import assert from "node:assert/strict";
+import { after, before, beforeEach, describe, it } from "node:test";
+import { fixCommitMessage, generateCommitMessage, planCommitSplit } from "./ai.js";
+import { type ValidConfig, getConfig } from "./config.js";
+import { CancelledError } from "./error.js";
+import { sendJson, startServer } from "./testing.js";
+
+const diff = [
+	"diff --git a/src/cli.ts b/src/cli.ts",
+	"--- a/src/cli.ts",
+	"+++ b/src/cli.ts",
+	"@@ -1 +1 @@",
+	"-old",
+	"+new",
+	"",
+].join("\n");
+
+describe("generateCommitMessage", () => {
+	let server: Awaited<ReturnType<typeof startServer>>;
+	// Contents of the next completions
+	let contents: string[];
+
+	before(async () => {
+		server = await startServer((_request, response) => {
+			sendJson(response, {
+				choices: contents.map((content) => ({ message: { content } })),
+				usage: { prompt_tokens: 20, completion_tokens: 10 },
+			});
+		});
+	});
+
+	beforeEach(() => {
+		server.requests.length = 0;
+	});
+
+	after(() => server.close());
+
+	const getTestConfig = (body: string) =>
+		getConfig({
+			provider: "openai-compatible",
+			"base-url": server.url,
+			model: "test-model",
+			body,
+		});
+
+	it("keeps single-line messages on one line", async () => {
+		contents = ["Add a flag.\n", "Add a flag", "Parse\nempty input"];
+
+		const { messages, usage } = await generateCommitMessage(
+			await getTestConfig("false"),
+			diff,
+		);
+
+		assert.deepEqual(messages, ["Add a flag", "Parseempty input"]);
+		assert.deepEqual(usage, { promptTokens: 20, completionTokens: 10 });
+		const [received] = server.requests;
+		assert.equal(received.body.max_tokens, 200);
+		assert.match(
+			received.body.messages[0].content,
+			/Commit message must be a maximum of 50 characters\./,
+		);
+	});
+
+	it("sends a system prompt built beforehand as is", async () => {
+		contents = ["Add a flag"];
+
+		const { systemPrompt } = await generateCommitMessage(
+			await getTestConfig("false"),
+			diff,
+			{ systemPrompt: "Write a commit message" },
+		);
+
+		assert.equal(systemPrompt, "Write a commit message");
+		assert.equal(server.requests[0].body.messages[0].content, "Write a commit message");
+	});
+
+	it("keeps the subject and body of messages in body mode", async () => {
+		contents = [
+			[
+				"```",
+				"Add a flag.",
+				"",
+				"",
+				"",
+				"- Let users choose the output format of the generated messages from the command line   ",
+				"- Document it",
+				"```",
+			].join("\n"),
+		];
+
+		const { messages } = await generateCommitMessage(await getTestConfig("true"), diff);
+
+		assert.deepEqual(messages, [
+			[
+				"Add a flag",
+				"",
+				"- Let users choose the output format of the generated messages from the",
+				"  command line",
+				"- Document it",
+			].join("\n"),
+		]);
+		const [received] = server.requests;
+		assert.equal(received.body.max_tokens, 500);
+		assert.match(received.body.messages[0].content, /<commit body>$/);
+	});
+
+	it("asks the model to fix messages that break the commit rules", async () => {
+		const config = await getTestConfig("false");
+		contents = ["Add a flag."];
+		const result = await generateCommitMessage(config, diff);
+		contents = ["feat: add a flag."];
+
+		const fixed = await fixCommitMessage(
+			config,
+			{ ...result, model: "fallback-model" },
+			"Add a flag",
+			["type may not be empty"],
+		);
+
+		assert.deepEqual(fixed, {
+			message: "feat: add a flag",
+			usage: { promptTokens: 20, completionTokens: 10 },
+		});
+		const received = server.requests[1];
+		assert.equal(received.body.model, "fallback-model");
+		assert.equal(received.body.n, 1);
+		assert.deepEqual(received.body.messages, [
+			{ role: "system", content: result.systemPrompt },
+			{
+				role: "user",
+				content: [
+					diff,
+					'The commit message "Add a flag" was generated for this diff, but it breaks these rules:',
+					"- type may not be empty",
+					"Respond with a corrected commit message only.",
+				].join("\n"),
+			},
+		]);
+	});
+});
+
+describe("planCommitSplit", () => {
+	const files = ["src/cli.ts", "src/parser.ts", "package-lock.json"];
+	let server: Awaited<ReturnType<typeof startServer>>;
+	let config: ValidConfig;
+	// Content of the next completion, the request hangs when undefined
+	let content: string | undefined;
+
+	before(async () => {
+		server = await startServer((_request, response) => {
+			if (content === undefined) {
+				return;
+			}
+			sendJson(response, {
+				choices: [{ message: { content } }],
+				usage: { prompt_tokens: 20, completion_tokens: 10 },
+			});
+		});
+		config = await getConfig({
+			provider: "openai-compatible",
+			"base-url": server.url,
+			model: "test-model",
+			type: "conventional",
+		});
+	});
+
+	after(() => server.close());
+
+	it("assigns every staged file to exactly one commit", async () => {
+		content = `Here is the plan:\n\`\`\`json\n${JSON.stringify({
+			commits: [
+				{ files: ["src/cli.ts", "src/unknown.ts"], message: "feat: add a flag." },
+				{ files: ["src/cli.ts"], message: "fix: handle the flag twice" },
+				{ files: ["src/parser.ts"], message: "fix: parse empty input" },
+			],
+		})}\n\`\`\``;
+
+		const { groups, usage, model } = await planCommitSplit(config, diff, files);
+
+		assert.deepEqual(groups, [
+			{ files: ["src/cli.ts"], message: "feat: add a flag" },
+			// Files the model left out go to the last commit
+			{
+				files: ["src/parser.ts", "package-lock.json"],
+				message: "fix: parse empty input",
+			},
+		]);
+		assert.deepEqual(usage, { promptTokens: 20, completionTokens: 10 });
+		assert.equal(model, "test-model");
+		assert.match(
+			server.requests[0].body.messages[1].content,
+			/^Staged files:\nsrc\/cli\.ts\n/,
+		);
+	});
+
+	it("rejects responses without a plan", async () => {
+		content = "I would split this into two commits.";
+
+		await assert.rejects(planCommitSplit(config, diff, files), {
+			message: "The model didn't return a valid commit plan. Try again.",
+		});
+	});
+
+	it("stops waiting for the plan when aborted", async () => {
+		content = undefined;
+		const controller = new AbortController();
+		setTimeout(() => controller.abort(), 50);
+
+		await assert.rejects(
+			planCommitSplit(config, diff, files, { signal: controller.signal }),
+			CancelledError,
+		);
+	});
+});
@@ -0,0 +1,514 @@
+import {
+	type ChangelogEntry,
+	type ChangelogSection,
+	changelogSections,
+} from "./changelog.js";
+import { type CommitStyle, describeCommitStyle } from "./commit-style.js";
+import type { ValidConfig } from "./config.js";
+import { ProviderError } from "./error.js";
+import { getCurrentBranch } from "./git.js";
+import {
+	type PromptContext,
+	generateChangelogPrompt,
+	generatePrompt,
+	generatePullRequestPrompt,
+	generateSplitPrompt,
+	getDiffStats,
+	loadPromptTemplate,
+} from "./prompt.js";
+import { type TokenUsage, addUsage, getProvider } from "./providers/index.js";
+import { prepareDiff } from "./summarize.js";
+
+/**
+ * Result of a commit message generation
+ */
+export type GenerationResult = {
+	messages: string[];
+	verbatimFiles: number;
+	summarizedFiles: number;
+	// Prompts sent to the model, reused when asking it to fix a message
+	systemPrompt: string;
+	userPrompt: string;
+	// Tokens used by the generation, including diff summaries
+	usage: TokenUsage;
+	// Model that generated the messages
+	model: string;
+};
+
+// Column at which commit bodies are wrapped
+const bodyWidth = 72;
+
+/**
+ * Options for a commit message generation
+ */
+export type GenerationOptions = {
+	// Called with a status message for long-running steps
+	onProgress?: (message: string) => void;
+	// Extra instructions from the user for this generation
+	hint?: string;
+	// Style of the repository's history to match
+	style?: CommitStyle;
+	// Aborts the requests, e.g. when the user presses Ctrl+C
+	signal?: AbortSignal;
+	// Streams the messages when set, called with the text of a message so far
+	onToken?: (index: number, text: string) => void;
+	// The system prompt, if already built with `buildCommitPrompt`
+	systemPrompt?: string;
+};
+
+/**
+ * Sanitize a commit message by removing newlines and trailing periods
+ */
+const sanitizeMessage = (message: string) =>
+	message
+		.trim()
+		.replace(/[\n\r]/g, "")
+		.replace(/(\w)\.$/, "$1");
+
+/**
+ * Wrap a body line at the body width, indenting continuation lines of bullet points
+ */
+const wrapLine = (line: string) => {
+	const indent = /^\s*[-*] /.test(line) ? "  " : "";
+	const lines: string[] = [];
+	let current = "";
+
+	for (const word of line.split(/\s+/).filter(Boolean)) {
+		if (current && current.length + word.length + 1 > bodyWidth) {
+			lines.push(current);
+			current = `${indent}${word}`;
+		} else {
+			current = current ? `${current} ${word}` : word;
+		}
+	}
+	lines.push(current);
+
+	return lines.join("\n");
+};
+
+/**
+ * Sanitize a commit message with a body, keeping the subject/body structure
+ */
+const sanitizeMessageWithBody = (message: string) => {
+	const [subject = "", ...bodyLines] = message
+		.trim()
+		// Models sometimes wrap the whole message in a code block
+		.replace(/^```\w*\n/, "")
+		.replace(/\n```$/, "")
+		.split(/\r?\n/);
+
+	const body = bodyLines
+		.map((line) => line.trimEnd())
+		.join("\n")
+		.trim()
+		.replace(/\n{3,}/g, "\n\n")
+		.split("\n")
+		.map((line) => (line.length > bodyWidth ? wrapLine(line) : line))
+		.join("\n");
+
+	const sanitizedSubject = sanitizeMessage(subject);
+	return body ? `${sanitizedSubject}\n\n${body}` : sanitizedSubject;
+};
+
+/**
+ * Remove duplicate messages from an array
+ */
+const deduplicateMessages = (array: string[]) => Array.from(new Set(array));
+
+/**
+ * Build the system prompt for a commit message generation
+ *
+ * @param config Validated configuration
+ * @param diff Git diff to analyze
+ * @param options Extra instructions and the history style
+ * @returns The system prompt
+ */
+export const buildCommitPrompt = async (
+	config: ValidConfig,
+	diff: string,
+	{ hint, style }: Pick<GenerationOptions, "hint" | "style"> = {},
+) => {
+	const context: PromptContext = {
+		hint,
+		style: style ? describeCommitStyle(style) : undefined,
+	};
+	if (config["prompt-template"]) {
+		context.template = await loadPromptTemplate(config["prompt-template"]);
+		context.diffStats = getDiffStats(diff);
+		context.branch = await getCurrentBranch().catch(() => "");
+	}
+
+	return generatePrompt(
+		config.locale,
+		config["max-length"],
+		config.type,
+		config,
+		context,
+	);
+};
+
+/**
+ * Generate commit messages using the configured provider
+ *
+ * @param config Validated configuration (provider, model, locale, generate, etc.)
+ * @param diff Git diff to analyze
+ * @param options Progress callback, extra instructions and the history style
+ * @returns Generated commit messages and how the diff was sent
+ */
+export const generateCommitMessage = async (
+	config: ValidConfig,
+	diff: string,
+	{ onProgress, hint, style, signal, onToken, ...options }: GenerationOptions = {},
+): Promise<GenerationResult> => {
+	const provider = getProvider(config);
+
+	// Summarise parts of the diff that don't fit the model's context
+	const prepared = await prepareDiff(config, provider, diff, onProgress, signal);
+	if (prepared.summarizedFiles > 0) {
+		onProgress?.("Generating commit message from summaries");
+	}
+
+	const systemPrompt =
+		options.systemPrompt ?? (await buildCommitPrompt(config, diff, { hint, style }));
+
+	const { messages, usage, model } = await provider.complete({
+		model: config.model,
+		systemPrompt,
+		userPrompt: prepared.content,
+		completions: config.generate,
+		maxTokens: config.body ? 500 : 200,
+		temperature: 0.7,
+		timeout: config.timeout,
+		signal,
+		onToken,
+		onRetry: onProgress,
+	});
+
+	return {
+		messages: deduplicateMessages(
+			messages.map(config.body ? sanitizeMessageWithBody : sanitizeMessage),
+		),
+		verbatimFiles: prepared.verbatimFiles,
+		summarizedFiles: prepared.summarizedFiles,
+		systemPrompt,
+		userPrompt: prepared.content,
+		usage: addUsage(prepared.usage, usage),
+		model,
+	};
+};
+
+/**
+ * A group of staged files to commit together
+ */
+export type CommitGroup = {
+	files: string[];
+	message: string;
+};
+
+/**
+ * Parse a JSON object the model responded with
+ */
+const parseJsonResponse = (response: string): Record<string, unknown> | undefined => {
+	try {
+		// Models sometimes wrap the JSON in a code block or add a sentence around it
+		const json = response.slice(response.indexOf("{"), response.lastIndexOf("}") + 1);
+		const parsed = JSON.parse(json);
+		return parsed && typeof parsed === "object" ? parsed : undefined;
+	} catch {
+		return undefined;
+	}
+};
+
+/**
+ * Parse the commit plan the model responded with
+ */
+const parseCommitPlan = (response: string) => {
+	const commits = parseJsonResponse(response)?.commits;
+	return Array.isArray(commits) ? (commits as Partial<CommitGroup>[]) : undefined;
+};
+
+/**
+ * Make sure every staged file ends up in exactly one group. Files the model
+ * left out (e.g. excluded lock files) are added to the last group.
+ */
+const normalizeGroups = (groups: Partial<CommitGroup>[], files: string[]) => {
+	const assigned = new Set<string>();
+	const normalized: CommitGroup[] = [];
+
+	for (const { files: groupFiles, message } of groups) {
+		const unassigned = (Array.isArray(groupFiles) ? groupFiles : []).filter(
+			(file) => files.includes(file) && !assigned.has(file),
+		);
+		if (unassigned.length === 0 || typeof message !== "string" || !message.trim()) {
+			continue;
+		}
+
+		for (const file of unassigned) {
+			assigned.add(file);
+		}
+		normalized.push({ files: unassigned, message });
+	}
+
+	const leftover = files.filter((file) => !assigned.has(file));
+	if (normalized.length > 0 && leftover.length > 0) {
+		normalized[normalized.length - 1].files.push(...leftover);
+	}
+
+	return normalized;
+};
+
+/**
+ * Ask the model to split staged changes into logical commits
+ *
+ * @param config Validated configuration
+ * @param diff Git diff to analyze
+ * @param files All staged files, including the ones excluded from the diff
+ * @param options Progress callback, extra instructions, the history style and abort signal
+ * @returns The commit groups in order, the tokens used and the model that planned them
+ */
+export const planCommitSplit = async (
+	config: ValidConfig,
+	diff: string,
+	files: string[],
+	{ onProgress, hint, style, signal }: GenerationOptions = {},
+): Promise<{ groups: CommitGroup[]; usage: TokenUsage; model: string }> => {
+	const provider = getProvider(config);
+	const prepared = await prepareDiff(config, provider, diff, onProgress, signal);
+	if (prepared.summarizedFiles > 0) {
+		onProgress?.("Planning commits from summaries");
+	}
+
+	const {
+		messages: [response],
+		usage,
+		model,
+	} = await provider.complete({
+		model: config.model,
+		systemPrompt: generateSplitPrompt(
+			config.locale,
+			config["max-length"],
+			config.type,
+			config,
+			{ hint, style: style ? describeCommitStyle(style) : undefined },
+		),
+		userPrompt: `Staged files:\n${files.join("\n")}\n\n${prepared.content}`,
+		completions: 1,
+		maxTokens: config.body ? 2000 : 1000,
+		temperature: 0.2,
+		timeout: config.timeout,
+		signal,
+		onRetry: onProgress,
+	});
+
+	const plan = response ? parseCommitPlan(response) : undefined;
+	const groups = plan ? normalizeGroups(plan, files) : [];
+	if (groups.length === 0) {
+		throw new ProviderError("The model didn't return a valid commit plan. Try again.");
+	}
+
+	return {
+		groups: groups.map((group) => ({
+			...group,
+			message: config.body
+				? sanitizeMessageWithBody(group.message)
+				: sanitizeMessage(group.message),
+		})),
+		usage: addUsage(prepared.usage, usage),
+		model,
+	};
+};
+
+/**
+ * A generated pull request title and description
+ */
+export type PullRequest = {
+	title: string;
+	summary: string;
+	changes: string[];
+	testing: string[];
+};
+
+const asStringList = (value: unknown) =>
+	Array.isArray(value) ? value.filter((item) => typeof item === "string") : [];
+
+/**
+ * Generate a pull request title and description for the changes of a branch
+ *
+ * @param config Validated configuration
+ * @param diff Diff of the branch against its merge base
+ * @param commits Messages of the branch's commits, oldest first
+ * @param options Progress callback and extra instructions
+ * @returns The pull request parts, the tokens used and the model that wrote them
+ */
+export const generatePullRequest = async (
+	config: ValidConfig,
+	diff: string,
+	commits: string[],
+	{ onProgress, hint }: GenerationOptions = {},
+): Promise<PullRequest & { usage: TokenUsage; model: string }> => {
+	const provider = getProvider(config);
+	const prepared = await prepareDiff(config, provider, diff, onProgress);
+
+	const {
+		messages: [response],
+		usage,
+		model,
+	} = await provider.complete({
+		model: config.model,
+		systemPrompt: generatePullRequestPrompt(config.locale, { hint }),
+		userPrompt: [
+			"Commits:",
+			...commits.map((message) => `- ${message.replace(/\n+/g, "\n  ")}`),
+			"",
+			"Diff:",
+			prepared.content,
+		].join("\n"),
+		completions: 1,
+		maxTokens: 1000,
+		temperature: 0.4,
+		timeout: config.timeout,
+	});
+
+	const parsed = response ? parseJsonResponse(response) : undefined;
+	if (!parsed || typeof parsed.title !== "string" || !parsed.title.trim()) {
+		throw new ProviderError("The model didn't return a valid pull request. Try again.");
+	}
+
+	return {
+		title: sanitizeMessage(parsed.title),
+		summary: typeof parsed.summary === "string" ? parsed.summary.trim() : "",
+		changes: asStringList(parsed.changes),
+		testing: asStringList(parsed.testing),
+		usage: addUsage(prepared.usage, usage),
+		model,
+	};
+};
+
+// Commits sent to the model per changelog request
+const changelogBatchSize = 10;
+
+// Characters of each commit's diff included when rewriting changelog entries
+const changelogDiffLength = 4000;
+
+/**
+ * Ask the model to rewrite commits with non-conventional or poor messages
+ * into user-facing changelog entries
+ *
+ * @param config Validated configuration
+ * @param commits Commits with their message and diff
+ * @returns Entries keyed by commit hash, `null` for commits that aren't user-facing,
+ * the tokens used and the model of the last batch
+ */
+export const generateChangelogEntries = async (
+	config: ValidConfig,
+	commits: { hash: string; message: string; diff: string }[],
+): Promise<{
+	entries: Map<string, ChangelogEntry | null>;
+	usage: TokenUsage;
+	model: string;
+}> => {
+	const provider = getProvider(config);
+	const entries = new Map<string, ChangelogEntry | null>();
+	let usage = addUsage();
+	let model = config.model as string;
+
+	for (let start = 0; start < commits.length; start += changelogBatchSize) {
+		const batch = commits.slice(start, start + changelogBatchSize);
+		const {
+			messages,
+			usage: batchUsage,
+			model: batchModel,
+		} = await provider.complete({
+			model: config.model,
+			systemPrompt: generateChangelogPrompt(config.locale, changelogSections),
+			userPrompt: batch
+				.map(({ hash, message, diff }) =>
+					[
+						`Commit ${hash.slice(0, 7)}:`,
+						message,
+						diff.length > changelogDiffLength
+							? `${diff.slice(0, changelogDiffLength)}\n[diff truncated]`
+							: diff,
+					].join("\n"),
+				)
+				.join("\n\n"),
+			completions: 1,
+			maxTokens: 100 * batch.length,
+			temperature: 0.2,
+			timeout: config.timeout,
+		});
+		usage = addUsage(usage, batchUsage);
+		model = batchModel;
+
+		const parsed = messages[0] ? parseJsonResponse(messages[0])?.entries : undefined;
+		for (const item of Array.isArray(parsed) ? parsed : []) {
+			const { commit, section, entry } = item as Record<string, unknown>;
+			const match = batch.find(
+				({ hash }) => typeof commit === "string" && hash.startsWith(commit),
+			);
+			if (!match) {
+				continue;
+			}
+
+			entries.set(
+				match.hash,
+				changelogSections.includes(section as ChangelogSection) &&
+				typeof entry === "string" &&
+				entry.trim()
+					? { section: section as ChangelogSection, text: sanitizeMessage(entry) }
+					: null,
+			);
+		}
+	}
+
+	return { entries, usage, model };
+};
+
+/**
+ * Ask the model to fix a commit message that breaks the commit rules
+ *
+ * @param config Validated configuration
+ * @param result The generation the message came from
+ * @param message The non-compliant commit message
+ * @param violations Descriptions of the broken rules
+ * @param signal Aborts the request
+ * @returns The corrected commit message, if any, and the tokens used
+ */
+export const fixCommitMessage = async (
+	config: ValidConfig,
+	result: GenerationResult,
+	message: string,
+	violations: string[],
+	signal?: AbortSignal,
+): Promise<{ message?: string; usage: TokenUsage }> => {
+	const provider = getProvider(config);
+
+	const {
+		messages: [fixed],
+		usage,
+	} = await provider.complete({
+		// The model that wrote the message, e.g. a fallback model
+		model: result.model,
+		systemPrompt: result.systemPrompt,
+		userPrompt: [
+			result.userPrompt,
+			`The commit message "${message}" was generated for this diff, but it breaks these rules:`,
+			...violations.map((violation) => `- ${violation}`),
+			"Respond with a corrected commit message only.",
+		].join("\n"),
+		completions: 1,
+		maxTokens: config.body ? 500 : 200,
+		temperature: 0.2,
+		timeout: config.timeout,
+		signal,
+	});
+
+	return {
+		message: fixed
+			? config.body
+				? sanitizeMessageWithBody(fixed)
+				: sanitizeMessage(fixed)
+			: undefined,
+		usage,
+	};
+};
@@ -0,0 +1,203 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+	extractTickets,
+	formatBranchPrefix,
+	getBranchTrailer,
+	isProtectedBranch,
+	stripBranchPrefix,
+} from "./branch-prefix.js";
+import { type LintRules, lintCommitMessage } from "./commitlint.js";
+import { parseConfigValue } from "./config.js";
+
+const patterns = parseConfigValue("branch-prefix-patterns", "");
+
+const config = {
+	"branch-prefix-patterns": patterns,
+	"branch-prefix-format": parseConfigValue("branch-prefix-format", ""),
+	"branch-prefix-placement": parseConfigValue("branch-prefix-placement", ""),
+	"protected-branches": parseConfigValue("protected-branches", ""),
+};
+
+describe("extractTickets", () => {
+	it("finds Jira keys and leading issue numbers", () => {
+		assert.deepEqual(extractTickets("feature/ENG-42-login", patterns), ["ENG-42"]);
+		assert.deepEqual(extractTickets("123-fix-crash", patterns), ["#123"]);
+		assert.deepEqual(extractTickets("fix/123-crash", patterns), ["#123"]);
+	});
+
+	it("returns several tickets in order, without duplicates", () => {
+		assert.deepEqual(extractTickets("42-ENG-7-ENG-42-ENG-7", patterns), [
+			"#42",
+			"ENG-7",
+			"ENG-42",
+		]);
+	});
+
+	it("matches keys case-insensitively, but not inside longer words", () => {
+		assert.deepEqual(extractTickets("feature/proj-123-foo", patterns), ["PROJ-123"]);
+		assert.deepEqual(extractTickets("feature/Eng-42", patterns), ["ENG-42"]);
+		assert.deepEqual(extractTickets("chore/update-3rd-party-deps", patterns), []);
+		assert.deepEqual(extractTickets("feature/ENG-42x-login", patterns), []);
+	});
+
+	it("uses the first capture group and normalizes keys of custom patterns", () => {
+		const custom = ["(?:^|/)([a-z]+-\\d+)", "gh-(\\d+)"];
+
+		assert.deepEqual(extractTickets("feature/abc-12-and-gh-7", custom), ["ABC-12", "#7"]);
+	});
+});
+
+describe("isProtectedBranch", () => {
+	it("matches names exactly, with `*` as a wildcard", () => {
+		const branches = ["main", "release/*"];
+
+		assert.ok(isProtectedBranch("main", branches));
+		assert.ok(isProtectedBranch("release/1.2", branches));
+		assert.ok(!isProtectedBranch("maintenance", branches));
+		assert.ok(!isProtectedBranch("pre-release/1.2", branches));
+	});
+});
+
+describe("formatBranchPrefix", () => {
+	it("adds the tickets to the subject line", () => {
+		assert.deepEqual(
+			formatBranchPrefix(
+				"Add login form\n\nWith validation",
+				"feature/ENG-42-login",
+				config,
+			),
+			{ message: "ENG-42: Add login form\n\nWith validation", prefix: "ENG-42" },
+		);
+	});
+
+	it("skips messages that already reference the tickets as whole words", () => {
+		assert.equal(
+			formatBranchPrefix("Fix crash (#123)", "123-fix-crash", config).skipped,
+			"the message already references the tickets",
+		);
+		assert.equal(
+			formatBranchPrefix("Fix crash (#1234)", "123-fix-crash", config).message,
+			"#123: Fix crash (#1234)",
+		);
+		assert.equal(
+			formatBranchPrefix("Fix ENG-42 crash", "ENG-4-crash", config).message,
+			"ENG-4: Fix ENG-42 crash",
+		);
+	});
+
+	it("fills the conventional parts of the format", () => {
+		const format = "{type}({ticket}): {description}";
+
+		assert.equal(
+			formatBranchPrefix("feat: add login", "ENG-42-login", {
+				...config,
+				"branch-prefix-format": format,
+			}).message,
+			"feat(ENG-42): add login",
+		);
+		// Subjects that aren't conventional fall back to the default format
+		assert.equal(
+			formatBranchPrefix("Add login", "ENG-42-login", {
+				...config,
+				"branch-prefix-format": format,
+			}).message,
+			"ENG-42: Add login",
+		);
+	});
+
+	it("uses the branch name when there is no ticket", () => {
+		assert.equal(
+			formatBranchPrefix("Add login", "feature/add-login_form", config).message,
+			"add login form: Add login",
+		);
+	});
+
+	it("leaves protected branches and detached HEADs alone", () => {
+		assert.deepEqual(formatBranchPrefix("Add login", "main", config), {
+			message: "Add login",
+			skipped: "main is a protected branch",
+		});
+		assert.deepEqual(formatBranchPrefix("Add login", "", config), {
+			message: "Add login",
+			skipped: "detached HEAD",
+		});
+	});
+});
+
+describe("stripBranchPrefix", () => {
+	it("removes the prefix added to the subject line", () => {
+		const conventional = {
+			...config,
+			"branch-prefix-format": "{type}({ticket}): {description}",
+		};
+
+		assert.equal(
+			stripBranchPrefix("ENG-42: feat: add login\n\nBody", "ENG-42-login", config),
+			"feat: add login\n\nBody",
+		);
+		assert.equal(
+			stripBranchPrefix("feat(ENG-42): add login", "ENG-42-login", conventional),
+			"feat: add login",
+		);
+		assert.equal(
+			stripBranchPrefix("ENG-42: Add login", "ENG-42-login", conventional),
+			"Add login",
+		);
+		assert.equal(
+			stripBranchPrefix("add login: Add login", "feature/add-login", config),
+			"Add login",
+		);
+	});
+
+	it("leaves messages without the prefix alone", () => {
+		assert.equal(
+			stripBranchPrefix("feat: add login (ENG-42)", "ENG-42-login", config),
+			"feat: add login (ENG-42)",
+		);
+		assert.equal(
+			stripBranchPrefix("ENG-42: feat: add login", "main", config),
+			"ENG-42: feat: add login",
+		);
+	});
+
+	it("lets prefixed messages pass the conventional commit rules", () => {
+		const rules: LintRules = { "type-empty": [2, "never"] };
+		const message = formatBranchPrefix("feat: add login", "PROJ-1-login", config).message;
+
+		assert.equal(message, "PROJ-1: feat: add login");
+		assert.notDeepEqual(lintCommitMessage(message, rules), []);
+		assert.deepEqual(
+			lintCommitMessage(stripBranchPrefix(message, "PROJ-1-login", config), rules),
+			[],
+		);
+	});
+});
+
+describe("getBranchTrailer", () => {
+	const trailerConfig = { ...config, "branch-prefix-placement": "trailer" as const };
+
+	it("references the tickets in a trailer", () => {
+		assert.deepEqual(getBranchTrailer("ENG-42-ENG-43", trailerConfig), {
+			trailer: "Refs: ENG-42, ENG-43",
+		});
+		assert.deepEqual(
+			getBranchTrailer("123-fix", {
+				...trailerConfig,
+				"branch-prefix-format": "Closes: {ticket}",
+			}),
+			{ trailer: "Closes: #123" },
+		);
+		// The subject line is left alone
+		assert.deepEqual(formatBranchPrefix("Add login", "ENG-42-login", trailerConfig), {
+			message: "Add login",
+			skipped: "the ticket is added as a trailer",
+		});
+	});
+
+	it("adds no trailer without a ticket", () => {
+		assert.deepEqual(getBranchTrailer("feature/add-login", trailerConfig), {
+			skipped: "no ticket in the branch name",
+		});
+	});
+});
@@ -0,0 +1,257 @@
+import { type ValidConfig, hasOwn } from "./config.js";
+import { parseConventionalCommit } from "./changelog.js";
+import { renderTemplate } from "./prompt.js";
+
+type BranchPrefixConfig = Pick<
+	ValidConfig,
+	| "branch-prefix-patterns"
+	| "branch-prefix-format"
+	| "branch-prefix-placement"
+	| "protected-branches"
+>;
+
+/**
+ * Escape the special characters of a string for use in a regular expression
+ */
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+// Used as the trailer when the format is meant for the subject line
+const defaultTrailerFormat = "Refs: {ticket}";
+
+// Prefixes of branch names that say nothing about the change
+const branchTypePrefix = /^(feature|feat|fix|bugfix|hotfix|release|chore)\//;
+
+/**
+ * Find the ticket references in a branch name
+ * Patterns are matched case-insensitively, the first capture group is used if present.
+ * Issue keys are upper-cased (`abc-123` → `ABC-123`) and bare numbers become `#123`.
+ *
+ * @param branch Name of the branch
+ * @param patterns Regular expressions matching ticket references
+ * @returns The tickets in order of appearance, without duplicates
+ */
+export const extractTickets = (branch: string, patterns: string[]) => {
+	const tickets = patterns.flatMap((pattern) =>
+		[...branch.matchAll(new RegExp(pattern, "gi"))].map((match) => ({
+			index: match.index ?? 0,
+			ticket: match[1] ?? match[0],
+		})),
+	);
+
+	return [
+		...new Set(
+			tickets
+				.sort((a, b) => a.index - b.index)
+				.map(({ ticket }) =>
+					/^\d+$/.test(ticket)
+						? `#${ticket}`
+						: /^[a-z][a-z0-9]*-\d+$/i.test(ticket)
+						  ? ticket.toUpperCase()
+						  : ticket,
+				),
+		),
+	];
+};
+
+/**
+ * Whether commits on a branch should never get a prefix, e.g. `main`
+ *
+ * @param branch Name of the branch
+ * @param protectedBranches Branch names, `*` matches any characters
+ */
+export const isProtectedBranch = (branch: string, protectedBranches: string[]) =>
+	protectedBranches.some((name) =>
+		new RegExp(
+			`^${name
+				.split("*")
+				.map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+				.join(".*")}$`,
+		).test(branch),
+	);
+
+/**
+ * Whether a message references a ticket as a whole word,
+ * so `#123` doesn't count as `#12` and `ABC-12` doesn't count as `ABC-1`
+ */
+const referencesTicket = (message: string, ticket: string) =>
+	new RegExp(`(?<!\\w)${escapeRegExp(ticket)}(?!\\w)`).test(message);
+
+/**
+ * Turn a branch name without tickets into a readable prefix, e.g. `feature/add-login` → `add login`
+ */
+const getBranchLabel = (branch: string) =>
+	branch.replace(branchTypePrefix, "").replace(/[-_]/g, " ").replace(/\s+/g, " ").trim();
+
+/**
+ * Find the tickets to add for the current branch
+ *
+ * @returns The tickets, or why nothing should be added
+ */
+const resolveTickets = (
+	branch: string,
+	config: BranchPrefixConfig,
+): { tickets: string[]; skipped?: string } => {
+	if (!branch) {
+		return { tickets: [], skipped: "detached HEAD" };
+	}
+	if (isProtectedBranch(branch, config["protected-branches"])) {
+		return { tickets: [], skipped: `${branch} is a protected branch` };
+	}
+	return { tickets: extractTickets(branch, config["branch-prefix-patterns"]) };
+};
+
+/**
+ * Get the trailer referencing the tickets of the current branch,
+ * used when `branch-prefix-placement` is `trailer`
+ *
+ * @param branch Name of the current branch, empty for a detached HEAD
+ * @param config Extraction patterns, format and protected branches
+ * @returns The trailer, e.g. `Refs: ENG-42`, or why there is none
+ */
+export const getBranchTrailer = (
+	branch: string,
+	config: BranchPrefixConfig,
+): { trailer?: string; skipped?: string } => {
+	const { tickets, skipped } = resolveTickets(branch, config);
+	if (skipped) {
+		return { skipped };
+	}
+	if (tickets.length === 0) {
+		return { skipped: "no ticket in the branch name" };
+	}
+
+	const format = config["branch-prefix-format"];
+	return {
+		trailer: renderTemplate(
+			format.includes("{message}") ? defaultTrailerFormat : format,
+			{ ticket: tickets.join(", "), branch },
+		),
+	};
+};
+
+/**
+ * Add the tickets of the current branch to the subject line of a commit message
+ * With the `trailer` placement the message is left alone, see `getBranchTrailer`
+ *
+ * @param message The commit message
+ * @param branch Name of the current branch, empty for a detached HEAD
+ * @param config Extraction patterns, format, placement and protected branches
+ * @returns The message with the prefix and the reference that was added, if any
+ */
+export const formatBranchPrefix = (
+	message: string,
+	branch: string,
+	config: BranchPrefixConfig,
+): { message: string; prefix?: string; skipped?: string } => {
+	if (config["branch-prefix-placement"] === "trailer") {
+		return { message, skipped: "the ticket is added as a trailer" };
+	}
+
+	const { tickets, skipped } = resolveTickets(branch, config);
+	if (skipped) {
+		return { message, skipped };
+	}
+
+	// The model or the user may have referenced the tickets already
+	if (tickets.length > 0 && tickets.every((id) => referencesTicket(message, id))) {
+		return { message, skipped: "the message already references the tickets" };
+	}
+
+	const [subject, ...rest] = message.split("\n");
+	const ticket = tickets.length > 0 ? tickets.join(", ") : getBranchLabel(branch);
+
+	// Formats using the conventional parts only apply to conventional subjects
+	const format = config["branch-prefix-format"];
+	const commit = parseConventionalCommit(subject);
+	const usesConventionalParts = /\{(type|scope|description)\}/.test(format);
+	const prefixed = renderTemplate(
+		usesConventionalParts && !commit ? "{ticket}: {message}" : format,
+		{
+			ticket,
+			branch,
+			message: subject,
+			type: commit?.type ?? "",
+			scope: commit?.scope ?? "",
+			description: commit?.description ?? "",
+		},
+	);
+
+	return { message: [prefixed, ...rest].join("\n"), prefix: ticket };
+};
+
+// What the placeholders of a format match when reading a prefixed subject back
+const placeholderPatterns: Record<string, string> = {
+	message: "(.+)",
+	description: "(.+)",
+	type: "(\\w+)",
+	scope: "([^)]*)",
+};
+
+/**
+ * Remove the prefix `formatBranchPrefix` added to a subject line, so the message can
+ * be checked against the commit rules as it was written. Messages with the prefix
+ * elsewhere, e.g. edited by the user, are returned unchanged.
+ *
+ * @param message The commit message, with or without the prefix
+ * @param branch Name of the current branch, empty for a detached HEAD
+ * @param config Extraction patterns, format, placement and protected branches
+ * @returns The message without the prefix
+ */
+export const stripBranchPrefix = (
+	message: string,
+	branch: string,
+	config: BranchPrefixConfig,
+): string => {
+	if (config["branch-prefix-placement"] === "trailer") {
+		return message;
+	}
+
+	const { tickets, skipped } = resolveTickets(branch, config);
+	if (skipped) {
+		return message;
+	}
+
+	const [subject, ...rest] = message.split("\n");
+	const literals: Record<string, string> = {
+		ticket: tickets.length > 0 ? tickets.join(", ") : getBranchLabel(branch),
+		branch,
+	};
+
+	// Non-conventional subjects are prefixed with the default format
+	for (const format of new Set([config["branch-prefix-format"], "{ticket}: {message}"])) {
+		const names: string[] = [];
+		const pattern = format
+			.split(/(\{\w+\})/)
+			.map((part) => {
+				const name = part.match(/^\{(\w+)\}$/)?.[1];
+				if (name && hasOwn(literals, name)) {
+					return escapeRegExp(literals[name]);
+				}
+				if (name && hasOwn(placeholderPatterns, name)) {
+					names.push(name);
+					return placeholderPatterns[name];
+				}
+				return escapeRegExp(part);
+			})
+			.join("");
+
+		const match = subject.match(new RegExp(`^${pattern}$`));
+		if (!match) {
+			continue;
+		}
+
+		const parts = Object.fromEntries(
+			names.map((name, index) => [name, match[index + 1]]),
+		);
+		const original =
+			parts.message ??
+			(parts.type && parts.description
+				? `${parts.type}${parts.scope ? `(${parts.scope})` : ""}: ${parts.description}`
+				: undefined);
+		if (original) {
+			return [original, ...rest].join("\n");
+		}
+	}
+
+	return message;
+};
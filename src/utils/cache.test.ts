@@ -0,0 +1,54 @@
+import assert from "node:assert/strict";
+import fs from "node:fs/promises";
+import path from "node:path";
+import { beforeEach, describe, it } from "node:test";
+import { clearCache, getCacheDir, getCacheKey, readCache, writeCache } from "./cache.js";
+
+describe("cache", () => {
+	beforeEach(() => clearCache());
+
+	it("is stored in the XDG cache directory", () => {
+		assert.equal(
+			getCacheDir(),
+			path.join(process.env.XDG_CACHE_HOME ?? "", "aicommits", "responses"),
+		);
+	});
+
+	it("derives keys from everything that affects the response", () => {
+		const key = getCacheKey({ diff: "+a", model: "gpt-4o" });
+
+		assert.match(key, /^[\da-f]{64}$/);
+		assert.equal(getCacheKey({ diff: "+a", model: "gpt-4o" }), key);
+		assert.notEqual(getCacheKey({ diff: "+a", model: "gpt-4o-mini" }), key);
+	});
+
+	it("reads entries until they expire", async () => {
+		await writeCache("fresh", ["Add a flag"], 10);
+		const entry = await readCache<string[]>("fresh", 1);
+
+		assert.deepEqual(entry?.value, ["Add a flag"]);
+		assert.ok(Date.now() - (entry?.createdAt ?? 0) < 60_000);
+		assert.equal(await readCache("missing", 1), undefined);
+
+		const expired = path.join(getCacheDir(), "expired.json");
+		await fs.writeFile(
+			expired,
+			JSON.stringify({ createdAt: Date.now() - 2 * 60 * 60 * 1000, value: [] }),
+		);
+		assert.equal(await readCache("expired", 1), undefined);
+		await assert.rejects(fs.stat(expired), { code: "ENOENT" });
+	});
+
+	it("keeps the newest entries up to the size limit", async () => {
+		for (const [index, key] of ["a", "b", "c"].entries()) {
+			await writeCache(key, [key], 2);
+			// Entries are pruned by modification time
+			const time = new Date(Date.now() - (3 - index) * 1000);
+			await fs.utimes(path.join(getCacheDir(), `${key}.json`), time, time);
+		}
+
+		assert.deepEqual((await fs.readdir(getCacheDir())).sort(), ["b.json", "c.json"]);
+		assert.equal(await clearCache(), 2);
+		assert.equal(await clearCache(), 0);
+	});
+});
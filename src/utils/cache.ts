@@ -0,0 +1,122 @@
+import crypto from "node:crypto";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+
+/**
+ * A cached value and when it was stored
+ */
+export type CacheEntry<T> = {
+	createdAt: number;
+	value: T;
+};
+
+/**
+ * Get the directory cached responses are stored in
+ * Follows the XDG base directory spec: `$XDG_CACHE_HOME/aicommits`
+ */
+export const getCacheDir = () =>
+	path.join(
+		process.env.XDG_CACHE_HOME || path.join(os.homedir(), ".cache"),
+		"aicommits",
+		"responses",
+	);
+
+/**
+ * Hash everything that affects a response into a cache key
+ *
+ * @param parts Diff, prompt and generation settings
+ * @returns Hex digest
+ */
+export const getCacheKey = (parts: Record<string, unknown>) =>
+	crypto.createHash("sha256").update(JSON.stringify(parts)).digest("hex");
+
+/**
+ * Read a cached value, expired entries are removed
+ *
+ * @param key Cache key
+ * @param ttlHours Maximum age of the entry
+ * @returns The entry, undefined if missing or expired
+ */
+export const readCache = async <T>(
+	key: string,
+	ttlHours: number,
+): Promise<CacheEntry<T> | undefined> => {
+	const file = path.join(getCacheDir(), `${key}.json`);
+
+	try {
+		const entry = JSON.parse(await fs.readFile(file, "utf8")) as CacheEntry<T>;
+		if (Date.now() - entry.createdAt > ttlHours * 60 * 60 * 1000) {
+			await fs.rm(file, { force: true });
+			return undefined;
+		}
+		return entry;
+	} catch {
+		// A missing or corrupt entry is a cache miss
+		return undefined;
+	}
+};
+
+/**
+ * Remove the oldest entries until at most `maxEntries` are left
+ */
+const pruneCache = async (maxEntries: number) => {
+	const dir = getCacheDir();
+	const files = (await fs.readdir(dir)).filter((file) => file.endsWith(".json"));
+	if (files.length <= maxEntries) {
+		return;
+	}
+
+	const entries = await Promise.all(
+		files.map(async (file) => ({
+			file,
+			mtime: (await fs.stat(path.join(dir, file))).mtimeMs,
+		})),
+	);
+	entries.sort((a, b) => a.mtime - b.mtime);
+
+	for (const { file } of entries.slice(0, entries.length - maxEntries)) {
+		await fs.rm(path.join(dir, file), { force: true });
+	}
+};
+
+/**
+ * Store a value in the cache. Failures are ignored, the cache is only an optimisation.
+ *
+ * @param key Cache key
+ * @param value JSON-serialisable value
+ * @param maxEntries Maximum number of entries kept in the cache
+ */
+export const writeCache = async (key: string, value: unknown, maxEntries: number) => {
+	const dir = getCacheDir();
+	const file = path.join(dir, `${key}.json`);
+
+	try {
+		await fs.mkdir(dir, { recursive: true });
+
+		// Write to a temporary file first so concurrent runs never read partial entries
+		const tempFile = `${file}.${process.pid}.tmp`;
+		await fs.writeFile(
+			tempFile,
+			JSON.stringify({ createdAt: Date.now(), value }),
+			"utf8",
+		);
+		await fs.rename(tempFile, file);
+
+		await pruneCache(maxEntries);
+	} catch {
+		// The next run generates fresh messages instead
+	}
+};
+
+/**
+ * Remove all cached responses
+ *
+ * @returns Number of removed entries
+ */
+export const clearCache = async (): Promise<number> => {
+	const dir = getCacheDir();
+	const files = await fs.readdir(dir).catch(() => []);
+	await fs.rm(dir, { recursive: true, force: true });
+	return files.filter((file) => file.endsWith(".json")).length;
+};
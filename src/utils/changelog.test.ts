@@ -0,0 +1,107 @@
+import assert from "node:assert/strict";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { after, before, describe, it } from "node:test";
+import {
+	getChangelogEntry,
+	parseConventionalCommit,
+	prependToChangelog,
+	renderChangelog,
+} from "./changelog.js";
+
+describe("parseConventionalCommit", () => {
+	it("parses the type, scope and breaking changes", () => {
+		assert.deepEqual(parseConventionalCommit("Feat(cli)!: add a flag"), {
+			type: "feat",
+			scope: "cli",
+			breaking: true,
+			description: "add a flag",
+		});
+		assert.equal(
+			parseConventionalCommit("fix: drop node 16\n\nBREAKING CHANGE: needs node 18")
+				?.breaking,
+			true,
+		);
+		assert.equal(parseConventionalCommit("Add a flag"), undefined);
+	});
+});
+
+describe("getChangelogEntry", () => {
+	it("uses clear conventional commits as they are", () => {
+		assert.deepEqual(getChangelogEntry("perf(parser): cache parsed files"), {
+			section: "Changed",
+			text: "cache parsed files",
+			scope: "parser",
+			breaking: false,
+		});
+	});
+
+	it("leaves out commits that aren't user-facing", () => {
+		assert.equal(getChangelogEntry("chore: bump dependencies"), null);
+		assert.equal(getChangelogEntry("docs: explain the flags"), null);
+	});
+
+	it("leaves unclear messages to the model", () => {
+		assert.equal(getChangelogEntry("Add a flag"), undefined);
+		assert.equal(getChangelogEntry("fix: typo"), undefined);
+		assert.equal(getChangelogEntry("fix: minor fixes"), undefined);
+		assert.equal(getChangelogEntry("chore!: drop node 16"), undefined);
+	});
+});
+
+describe("renderChangelog", () => {
+	it("renders the sections in Keep a Changelog order", () => {
+		const markdown = renderChangelog(
+			"1.2.0",
+			[
+				{ section: "Fixed", text: "handle empty input" },
+				{ section: "Added", text: "add a flag", scope: "cli", breaking: true },
+				{ section: "Added", text: "support JSON" },
+			],
+			"2024-05-01",
+		);
+
+		assert.equal(
+			markdown,
+			[
+				"## [1.2.0] - 2024-05-01",
+				"",
+				"### Added",
+				"",
+				"- **Breaking:** **cli:** Add a flag",
+				"- Support JSON",
+				"",
+				"### Fixed",
+				"",
+				"- Handle empty input",
+				"",
+			].join("\n"),
+		);
+	});
+});
+
+describe("prependToChangelog", () => {
+	let directory: string;
+
+	before(async () => {
+		directory = await fs.mkdtemp(path.join(os.tmpdir(), "aicommits-changelog-"));
+	});
+
+	after(() => fs.rm(directory, { recursive: true, force: true }));
+
+	it("creates the changelog and adds releases above the previous ones", async () => {
+		const file = path.join(directory, "CHANGELOG.md");
+
+		await prependToChangelog(file, "## [1.0.0]\n\n### Added\n\n- First\n");
+		await prependToChangelog(file, "## [1.1.0]\n\n### Fixed\n\n- Second\n");
+
+		const content = await fs.readFile(file, "utf8");
+		assert.ok(content.startsWith("# Changelog\n\nAll notable changes"));
+		assert.ok(
+			content.endsWith(
+				"## [1.1.0]\n\n### Fixed\n\n- Second\n\n## [1.0.0]\n\n### Added\n\n- First\n",
+			),
+		);
+	});
+});
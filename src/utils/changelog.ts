@@ -0,0 +1,169 @@
+import fs from "node:fs/promises";
+import { fileExists } from "./config.js";
+
+/**
+ * Sections of a Keep a Changelog release, in the order they are rendered
+ * https://keepachangelog.com/en/1.1.0/
+ */
+export const changelogSections = [
+	"Added",
+	"Changed",
+	"Deprecated",
+	"Removed",
+	"Fixed",
+	"Security",
+] as const;
+export type ChangelogSection = (typeof changelogSections)[number];
+
+/**
+ * A single line of the changelog
+ */
+export type ChangelogEntry = {
+	section: ChangelogSection;
+	text: string;
+	scope?: string;
+	breaking?: boolean;
+};
+
+/**
+ * A commit message following the conventional commits format
+ */
+type ConventionalCommit = {
+	type: string;
+	scope?: string;
+	breaking: boolean;
+	description: string;
+};
+
+// Sections of the user-facing conventional types, other types are left out
+const sectionsByType: Record<string, ChangelogSection> = {
+	feat: "Added",
+	fix: "Fixed",
+	perf: "Changed",
+	refactor: "Changed",
+	revert: "Changed",
+};
+
+// Descriptions made only of these words don't tell users anything
+const genericDescription =
+	/^(wip|fix(es|ed)?|bugs?|updates?|updated|changes?|misc|cleanup|tweaks?|stuff|minor|small|more|some|typo|and|\s)+$/i;
+
+const changelogHeader = `# Changelog
+
+All notable changes to this project will be documented in this file.
+
+The format is based on [Keep a Changelog](https://keepachangelog.com/en/1.1.0/).
+`;
+
+/**
+ * Parse a commit message in the conventional commits format
+ *
+ * @param message The full commit message
+ * @returns The parsed header, undefined for non-conventional messages
+ */
+export const parseConventionalCommit = (
+	message: string,
+): ConventionalCommit | undefined => {
+	const [header, ...body] = message.split("\n");
+	const match = header.match(/^(\w+)(?:\(([^)]+)\))?(!)?: (.+)$/);
+	if (!match) {
+		return undefined;
+	}
+
+	const [, type, scope, bang, description] = match;
+	return {
+		type: type.toLowerCase(),
+		scope,
+		breaking: Boolean(bang) || /^BREAKING[ -]CHANGE:/m.test(body.join("\n")),
+		description: description.trim(),
+	};
+};
+
+/**
+ * Turn a commit into a changelog entry without asking the model
+ *
+ * @param message The full commit message
+ * @returns The entry, `null` if the commit isn't user-facing, or undefined
+ * if the message needs to be rewritten by the model
+ */
+export const getChangelogEntry = (message: string): ChangelogEntry | null | undefined => {
+	const commit = parseConventionalCommit(message);
+	if (!commit) {
+		return undefined;
+	}
+
+	const section = sectionsByType[commit.type];
+	if (!section) {
+		// Breaking changes are always worth mentioning, whatever their type
+		return commit.breaking ? undefined : null;
+	}
+
+	const words = commit.description.split(/\s+/).length;
+	if (words < 2 || genericDescription.test(commit.description)) {
+		return undefined;
+	}
+
+	return {
+		section,
+		text: commit.description,
+		scope: commit.scope,
+		breaking: commit.breaking,
+	};
+};
+
+/**
+ * Render a release in Keep a Changelog format
+ *
+ * @param release Name of the release, e.g. `1.2.0` or `Unreleased`
+ * @param entries Entries of the release
+ * @param date Release date, omitted for unreleased changes
+ * @returns Markdown for the release
+ */
+export const renderChangelog = (
+	release: string,
+	entries: ChangelogEntry[],
+	date?: string,
+) => {
+	const lines = [`## [${release}]${date ? ` - ${date}` : ""}`];
+
+	for (const section of changelogSections) {
+		const sectionEntries = entries.filter((entry) => entry.section === section);
+		if (sectionEntries.length === 0) {
+			continue;
+		}
+
+		lines.push("", `### ${section}`, "");
+		for (const { text, scope, breaking } of sectionEntries) {
+			const capitalized = `${text.charAt(0).toUpperCase()}${text.slice(1)}`;
+			lines.push(
+				`- ${breaking ? "**Breaking:** " : ""}${
+					scope ? `**${scope}:** ` : ""
+				}${capitalized}`,
+			);
+		}
+	}
+
+	return `${lines.join("\n")}\n`;
+};
+
+/**
+ * Add a release to a changelog file, above the previous releases
+ * The file is created with the Keep a Changelog header if it doesn't exist
+ *
+ * @param file Path to the changelog
+ * @param release Rendered release
+ */
+export const prependToChangelog = async (file: string, release: string) => {
+	const existing = (await fileExists(file))
+		? await fs.readFile(file, "utf8")
+		: changelogHeader;
+
+	// Keep the title and introduction on top
+	const firstRelease = existing.search(/^## /m);
+	const content =
+		firstRelease === -1
+			? `${existing.trimEnd()}\n\n${release}`
+			: `${existing.slice(0, firstRelease)}${release}\n${existing.slice(firstRelease)}`;
+
+	await fs.writeFile(file, content, "utf8");
+};
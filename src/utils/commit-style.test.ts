@@ -0,0 +1,105 @@
+import assert from "node:assert/strict";
+import { afterEach, beforeEach, describe, it } from "node:test";
+import {
+	describeCommitStyle,
+	inferCommitStyle,
+	loadCommitStyle,
+} from "./commit-style.js";
+import { getConfig } from "./config.js";
+import { type TestRepo, createTestRepo } from "./testing.js";
+
+describe("inferCommitStyle", () => {
+	it("detects conventional commits, ticket prefixes and capitalization", () => {
+		const style = inferCommitStyle([
+			"[ABC-12] feat(cli): add a flag",
+			"[ABC-13] fix(parser): handle empty input",
+			"[XYZ-1] fix(cli): print the version",
+			"update the readme",
+		]);
+
+		assert.equal(style.conventional, true);
+		assert.deepEqual(style.types, ["fix", "feat"]);
+		assert.deepEqual(style.scopes, ["cli", "parser"]);
+		assert.equal(style.ticketPrefix, "[<ticket>] ");
+		assert.deepEqual(style.ticketKeys, ["ABC", "XYZ"]);
+		assert.equal(style.capitalization, "lower");
+	});
+
+	it("only reports conventions most subjects follow", () => {
+		const style = inferCommitStyle([
+			"Add a flag",
+			"ABC-1: Handle empty input",
+			"fix: print the version",
+		]);
+
+		assert.equal(style.conventional, false);
+		assert.equal(style.ticketPrefix, undefined);
+		assert.equal(style.capitalization, "mixed");
+	});
+
+	it("describes the style as prompt instructions", () => {
+		const description = describeCommitStyle(
+			inferCommitStyle(["Add a flag", "Handle empty input"]),
+		);
+
+		assert.equal(
+			description,
+			[
+				"Match the style of the repository's recent commit messages:",
+				"- The description starts with an uppercase letter",
+				"Recent commit messages:",
+				"- Add a flag",
+				"- Handle empty input",
+			].join("\n"),
+		);
+	});
+});
+
+describe("loadCommitStyle", () => {
+	const cwd = process.cwd();
+	let repo: TestRepo;
+
+	const commit = async (file: string, message: string) => {
+		await repo.writeFile(file, message);
+		await repo.git("add", file);
+		await repo.git("commit", "--quiet", "-m", message);
+	};
+
+	beforeEach(async () => {
+		repo = await createTestRepo();
+		process.chdir(repo.path);
+	});
+
+	afterEach(async () => {
+		process.chdir(cwd);
+		await repo.remove();
+	});
+
+	it("is disabled by default", async () => {
+		await commit("a.ts", "Add a");
+
+		assert.equal(await loadCommitStyle(await getConfig(), ["a.ts"]), undefined);
+	});
+
+	it("reads the newest subjects, optionally of the staged paths", async () => {
+		const config = await getConfig({ "style-from-history": "true", "history-size": "2" });
+		assert.equal(await loadCommitStyle(config, []), undefined);
+
+		await commit("a.ts", "Add a");
+		await commit("b.ts", "Add b");
+		await commit("c.ts", "Add c");
+
+		assert.deepEqual((await loadCommitStyle(config, ["a.ts"]))?.examples, [
+			"Add c",
+			"Add b",
+		]);
+
+		const samePaths = { ...config, "history-same-paths": true };
+		assert.deepEqual((await loadCommitStyle(samePaths, ["a.ts"]))?.examples, ["Add a"]);
+		// Falls back to the whole history for new files
+		assert.deepEqual((await loadCommitStyle(samePaths, ["d.ts"]))?.examples, [
+			"Add c",
+			"Add b",
+		]);
+	});
+});
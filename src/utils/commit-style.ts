@@ -0,0 +1,162 @@
+import type { ValidConfig } from "./config.js";
+import { getRecentCommitSubjects } from "./git.js";
+
+/**
+ * Conventions inferred from the subjects of recent commits
+ */
+export type CommitStyle = {
+	// Recent subjects, shown to the model as examples
+	examples: string[];
+	// Whether most subjects follow the `<type>(<scope>): ` format
+	conventional: boolean;
+	// Types and scopes in use, most frequent first
+	types: string[];
+	scopes: string[];
+	// Format of the ticket reference subjects start with, e.g. `[<ticket>] `
+	ticketPrefix?: string;
+	// Project keys of the ticket references, e.g. `ABC` for `ABC-123`
+	ticketKeys: string[];
+	// Case of the first letter of the description
+	capitalization: "upper" | "lower" | "mixed";
+};
+
+const conventionalPattern = /^(\w+)(?:\(([^)]+)\))?!?: (.*)$/;
+const ticketPattern = /^(\[)?([A-Z][A-Z0-9]+)-\d+(\])?(:)?\s+/;
+
+// Share of subjects a convention must appear in to be reported
+const majority = 0.5;
+
+// Share of descriptions that must share a case for it to be reported
+const caseThreshold = 0.8;
+
+/**
+ * Sort values by how often they occur, most frequent first
+ */
+const rankByFrequency = (values: string[]) => {
+	const counts = new Map<string, number>();
+	for (const value of values) {
+		counts.set(value, (counts.get(value) ?? 0) + 1);
+	}
+	return Array.from(counts.entries())
+		.sort((a, b) => b[1] - a[1])
+		.map(([value]) => value);
+};
+
+/**
+ * Infer the commit message conventions of a repository from commit subjects
+ *
+ * @param subjects Commit subjects, newest first
+ * @returns The inferred style
+ */
+export const inferCommitStyle = (subjects: string[]): CommitStyle => {
+	const ticketPrefixes: string[] = [];
+	const ticketKeys: string[] = [];
+	const types: string[] = [];
+	const scopes: string[] = [];
+	const descriptions: string[] = [];
+
+	for (const subject of subjects) {
+		let rest = subject;
+
+		const ticket = rest.match(ticketPattern);
+		if (ticket) {
+			const [match, open, key, close, colon] = ticket;
+			ticketPrefixes.push(
+				`${open && close ? "[" : ""}<ticket>${open && close ? "]" : ""}${colon ?? ""} `,
+			);
+			ticketKeys.push(key);
+			rest = rest.slice(match.length);
+		}
+
+		const conventional = rest.match(conventionalPattern);
+		if (conventional) {
+			const [, type, scope, description] = conventional;
+			types.push(type);
+			if (scope) {
+				scopes.push(scope);
+			}
+			rest = description;
+		}
+
+		descriptions.push(rest);
+	}
+
+	const upper = descriptions.filter((text) => /^\p{Lu}/u.test(text)).length;
+	const lower = descriptions.filter((text) => /^\p{Ll}/u.test(text)).length;
+	const cased = upper + lower;
+
+	return {
+		examples: subjects,
+		conventional: types.length > subjects.length * majority,
+		types: rankByFrequency(types),
+		scopes: rankByFrequency(scopes),
+		ticketPrefix:
+			ticketPrefixes.length > subjects.length * majority
+				? rankByFrequency(ticketPrefixes)[0]
+				: undefined,
+		ticketKeys: rankByFrequency(ticketKeys),
+		capitalization:
+			cased > 0 && upper / cased >= caseThreshold
+				? "upper"
+				: cased > 0 && lower / cased >= caseThreshold
+				  ? "lower"
+				  : "mixed",
+	};
+};
+
+/**
+ * Load the commit style of the current repository, if enabled
+ * With `history-same-paths`, only commits touching the staged files are used,
+ * falling back to the whole history when there are none
+ *
+ * @param config Validated configuration
+ * @param files Staged files
+ * @returns The inferred style, undefined if disabled or without history
+ */
+export const loadCommitStyle = async (
+	config: ValidConfig,
+	files: string[],
+): Promise<CommitStyle | undefined> => {
+	if (!config["style-from-history"]) {
+		return undefined;
+	}
+
+	const size = config["history-size"];
+	let subjects = config["history-same-paths"]
+		? await getRecentCommitSubjects(size, files)
+		: [];
+	if (subjects.length === 0) {
+		subjects = await getRecentCommitSubjects(size);
+	}
+
+	return subjects.length > 0 ? inferCommitStyle(subjects) : undefined;
+};
+
+/**
+ * Describe a commit style as instructions for the model
+ *
+ * @param style The inferred style
+ * @returns Prompt instructions with the recent subjects as examples
+ */
+export const describeCommitStyle = (style: CommitStyle) =>
+	[
+		"Match the style of the repository's recent commit messages:",
+		style.conventional &&
+			`- Commits use the format <type>(<scope>): <description>, with these types: ${style.types.join(
+				", ",
+			)}`,
+		style.scopes.length > 0 &&
+			`- Scopes in use, reuse one when it fits: ${style.scopes.join(", ")}`,
+		style.ticketPrefix &&
+			`- Commits start with a ticket reference formatted as "${
+				style.ticketPrefix
+			}" (projects: ${style.ticketKeys.join(", ")})`,
+		style.capitalization !== "mixed" &&
+			`- The description starts with ${
+				style.capitalization === "upper" ? "an uppercase" : "a lowercase"
+			} letter`,
+		"Recent commit messages:",
+		...style.examples.map((example) => `- ${example}`),
+	]
+		.filter(Boolean)
+		.join("\n");
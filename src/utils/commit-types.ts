@@ -0,0 +1,116 @@
+/**
+ * A commit message format the model can be asked to follow
+ */
+export type CommitTypeDefinition = {
+	// Format shown to the model, e.g. `<type>(<scope>): <commit message>`
+	format: string;
+	// Extra instructions, such as the list of types to choose from
+	instructions?: string;
+};
+
+/**
+ * References:
+ * Commitlint:
+ * https://github.com/conventional-changelog/commitlint/blob/18fbed7ea86ac0ec9d5449b4979b762ec4305a92/%40commitlint/config-conventional/index.js#L40-L100
+ *
+ * Conventional Changelog:
+ * https://github.com/conventional-changelog/conventional-changelog/blob/d0e5d5926c8addba74bc962553dd8bcfba90e228/packages/conventional-changelog-conventionalcommits/writer-opts.js#L182-L193
+ */
+export const conventionalTypes = {
+	docs: "Documentation only changes",
+	style:
+		"Changes that do not affect the meaning of the code (white-space, formatting, missing semi-colons, etc)",
+	refactor: "A code change that neither fixes a bug nor adds a feature",
+	perf: "A code change that improves performance",
+	test: "Adding missing tests or correcting existing tests",
+	build: "Changes that affect the build system or external dependencies",
+	ci: "Changes to our CI configuration files and scripts",
+	chore: "Other changes that don't modify src or test files",
+	revert: "Reverts a previous commit",
+	feat: "A new feature",
+	fix: "A bug fix",
+};
+
+const conventionalInstructions = `Choose a type from the type-to-description JSON below that best describes the git diff:\n${JSON.stringify(
+	conventionalTypes,
+	null,
+	2,
+)}`;
+
+/**
+ * Reference: https://gitmoji.dev
+ */
+const gitmojis = {
+	"✨": "Introduce new features",
+	"🐛": "Fix a bug",
+	"📝": "Add or update documentation",
+	"🎨": "Improve structure / format of the code",
+	"♻️": "Refactor code",
+	"⚡️": "Improve performance",
+	"✅": "Add, update, or pass tests",
+	"🔧": "Add or update configuration files",
+	"⬆️": "Upgrade dependencies",
+	"🔥": "Remove code or files",
+	"🚑️": "Critical hotfix",
+	"💄": "Add or update the UI and style files",
+	"👷": "Add or update CI build system",
+	"🔒️": "Fix security or privacy issues",
+	"⏪️": "Revert changes",
+};
+
+const builtinCommitTypes: Record<string, CommitTypeDefinition> = {
+	"": {
+		format: "<commit message>",
+	},
+	conventional: {
+		format: "<type>(<optional scope>): <commit message>",
+		instructions: conventionalInstructions,
+	},
+	angular: {
+		format: "<type>(<scope>): <commit message>",
+		instructions: `${conventionalInstructions}\nThe scope is required: use the name of the module, package or area affected by the change.`,
+	},
+	gitmoji: {
+		format: "<emoji> <commit message>",
+		instructions: `Choose an emoji from the emoji-to-description JSON below that best describes the git diff:\n${JSON.stringify(
+			gitmojis,
+			null,
+			2,
+		)}`,
+	},
+};
+
+// Registered commit types, built-in types plus the ones from config files
+const commitTypes = new Map(Object.entries(builtinCommitTypes));
+
+/**
+ * Register commit types defined in config files
+ * A type can reuse the instructions of another type with `extends`
+ *
+ * @param types Type definitions keyed by name
+ */
+export const registerCommitTypes = (
+	types: Record<string, Partial<CommitTypeDefinition> & { extends?: string }>,
+) => {
+	for (const [name, { format, instructions, extends: base }] of Object.entries(types)) {
+		const baseType = base ? commitTypes.get(base) : undefined;
+		if (!format && !baseType) {
+			continue;
+		}
+
+		commitTypes.set(name, {
+			format: format || baseType?.format || "",
+			instructions: instructions ?? baseType?.instructions,
+		});
+	}
+};
+
+/**
+ * Get a registered commit type by name
+ */
+export const getCommitType = (name: string) => commitTypes.get(name);
+
+/**
+ * Get the names of all registered commit types
+ */
+export const getCommitTypeNames = () => Array.from(commitTypes.keys());
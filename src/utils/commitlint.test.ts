@@ -0,0 +1,107 @@
+import assert from "node:assert/strict";
+import { after, before, describe, it } from "node:test";
+import { type LintRules, lintCommitMessage, loadLintRules } from "./commitlint.js";
+import { getConfig } from "./config.js";
+import { type TestRepo, createTestRepo } from "./testing.js";
+
+describe("lintCommitMessage", () => {
+	const rules: LintRules = {
+		"type-enum": [2, "always", ["feat", "fix"]],
+		"type-empty": [2, "never"],
+		"subject-empty": [2, "never"],
+		"subject-full-stop": [2, "never", "."],
+		"subject-case": [2, "never", ["sentence-case", "upper-case"]],
+		"header-max-length": [2, "always", 30],
+		"body-leading-blank": [2, "always"],
+		"scope-empty": [1, "never"],
+	};
+
+	it("accepts a valid message", () => {
+		assert.deepEqual(lintCommitMessage("feat(cli): add a flag", rules), []);
+	});
+
+	it("parses the type, scope and subject of the header", () => {
+		assert.deepEqual(lintCommitMessage("docs(readme)!: list the flags", rules), [
+			"type must be one of [feat, fix]",
+		]);
+	});
+
+	it("reports every broken rule", () => {
+		assert.deepEqual(lintCommitMessage("fix: Handle the missing config file.", rules), [
+			"subject may not end with full stop",
+			"subject must not be sentence-case, upper-case",
+			"header must not be longer than 30 characters, current length is 36",
+		]);
+	});
+
+	it("treats a header without a type as the subject", () => {
+		assert.deepEqual(lintCommitMessage("add a flag", rules), ["type may not be empty"]);
+	});
+
+	it("requires a blank line before the body", () => {
+		assert.deepEqual(lintCommitMessage("fix: handle errors\nin the parser", rules), [
+			"body must have leading blank line",
+		]);
+		assert.deepEqual(lintCommitMessage("fix: handle errors\n\nin the parser", rules), []);
+	});
+
+	it("ignores disabled rules and warnings", () => {
+		assert.deepEqual(
+			lintCommitMessage("fix: Handle errors", {
+				"subject-case": [0, "never", "sentence-case"],
+				"scope-empty": [1, "never"],
+			}),
+			[],
+		);
+	});
+});
+
+describe("loadLintRules", () => {
+	const cwd = process.cwd();
+	let repo: TestRepo;
+
+	before(async () => {
+		repo = await createTestRepo();
+		process.chdir(repo.path);
+	});
+
+	after(async () => {
+		process.chdir(cwd);
+		await repo.remove();
+	});
+
+	const getTestConfig = (type: string) => getConfig({ type, "max-length": "72" });
+
+	it("uses the conventional rules for conventional commit types", async () => {
+		const rules = await loadLintRules(await getTestConfig("conventional"));
+
+		assert.deepEqual(rules["type-empty"], [2, "never"]);
+		assert.deepEqual(rules["header-max-length"], [2, "always", 72]);
+	});
+
+	it("only checks the length for other commit types", async () => {
+		const rules = await loadLintRules(await getTestConfig(""));
+
+		assert.deepEqual(rules, { "header-max-length": [2, "always", 72] });
+	});
+
+	it("merges the repository config over the configs it extends", async () => {
+		await repo.writeFile(
+			".commitlintrc.json",
+			JSON.stringify({
+				extends: ["@commitlint/config-conventional"],
+				rules: {
+					"type-enum": [2, "always", ["feat", "fix"]],
+					"header-max-length": [2, "always", 60],
+				},
+			}),
+		);
+
+		const rules = await loadLintRules(await getTestConfig(""));
+
+		assert.deepEqual(rules["type-enum"], [2, "always", ["feat", "fix"]]);
+		assert.deepEqual(rules["subject-full-stop"], [2, "never", "."]);
+		// The shorter of the commitlint and the configured limit applies
+		assert.deepEqual(rules["header-max-length"], [2, "always", 60]);
+	});
+});
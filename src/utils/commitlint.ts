@@ -0,0 +1,285 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import { createRequire } from "node:module";
+import { pathToFileURL } from "node:url";
+import { conventionalTypes } from "./commit-types.js";
+import { type ValidConfig, fileExists } from "./config.js";
+import { assertGitRepo } from "./git.js";
+
+/**
+ * A commitlint rule: [level, applicable, value]
+ * Level 0 disables the rule, 1 is a warning and 2 an error
+ * https://commitlint.js.org/reference/rules-configuration.html
+ */
+type Rule = [level: 0 | 1 | 2, applicable?: "always" | "never", value?: unknown];
+
+export type LintRules = Record<string, Rule>;
+
+type CommitlintConfig = {
+	extends?: string | string[];
+	rules?: LintRules;
+};
+
+/**
+ * The rules of `@commitlint/config-conventional` that are errors
+ */
+const conventionalRules: LintRules = {
+	"body-max-line-length": [2, "always", 100],
+	"header-max-length": [2, "always", 100],
+	"subject-case": [
+		2,
+		"never",
+		["sentence-case", "start-case", "pascal-case", "upper-case"],
+	],
+	"subject-empty": [2, "never"],
+	"subject-full-stop": [2, "never", "."],
+	"type-case": [2, "always", "lower-case"],
+	"type-empty": [2, "never"],
+	"type-enum": [2, "always", Object.keys(conventionalTypes)],
+};
+
+// Commit types whose format follows the conventional commits header
+const conventionalCommitTypes = ["conventional", "angular"];
+
+// Config files searched in the repository root, in commitlint's order
+const configFiles = [
+	".commitlintrc",
+	".commitlintrc.json",
+	".commitlintrc.js",
+	".commitlintrc.cjs",
+	".commitlintrc.mjs",
+	"commitlint.config.js",
+	"commitlint.config.cjs",
+	"commitlint.config.mjs",
+];
+
+/**
+ * Read a commitlint config file (JSON or JavaScript)
+ */
+const readCommitlintFile = async (
+	filePath: string,
+): Promise<CommitlintConfig | undefined> => {
+	try {
+		if (/\.[cm]?js$/.test(filePath)) {
+			const module = await import(pathToFileURL(filePath).href);
+			return module.default ?? module;
+		}
+
+		const content = JSON.parse(await fs.readFile(filePath, "utf8"));
+		return path.basename(filePath) === "package.json" ? content.commitlint : content;
+	} catch {
+		// Unsupported formats (e.g. YAML) fall back to the built-in rules
+		return undefined;
+	}
+};
+
+/**
+ * Resolve the rules of a commitlint config, including shared configs it extends
+ */
+const resolveRules = async (
+	config: CommitlintConfig,
+	repoRoot: string,
+): Promise<LintRules> => {
+	let rules: LintRules = {};
+	const require = createRequire(path.join(repoRoot, "package.json"));
+
+	for (const name of [config.extends ?? []].flat()) {
+		if (name === "@commitlint/config-conventional") {
+			rules = { ...rules, ...conventionalRules };
+			continue;
+		}
+
+		try {
+			const shared = await import(pathToFileURL(require.resolve(name)).href);
+			rules = { ...rules, ...(await resolveRules(shared.default ?? shared, repoRoot)) };
+		} catch {
+			// Shared configs that aren't installed are skipped
+		}
+	}
+
+	return { ...rules, ...config.rules };
+};
+
+/**
+ * Find the commitlint config of the current repository
+ */
+const findCommitlintConfig = async (repoRoot: string) => {
+	for (const file of configFiles) {
+		const filePath = path.join(repoRoot, file);
+		if (await fileExists(filePath)) {
+			return readCommitlintFile(filePath);
+		}
+	}
+
+	const packageJsonPath = path.join(repoRoot, "package.json");
+	if (await fileExists(packageJsonPath)) {
+		return readCommitlintFile(packageJsonPath);
+	}
+};
+
+/**
+ * Load the rules generated messages are validated against: the local commitlint
+ * config if there is one, the conventional rules for conventional commit types,
+ * and always the configured `max-length`
+ *
+ * @param config Validated configuration
+ * @returns Lint rules
+ */
+export const loadLintRules = async (config: ValidConfig): Promise<LintRules> => {
+	const repoRoot = await assertGitRepo().catch(() => undefined);
+	const commitlintConfig = repoRoot ? await findCommitlintConfig(repoRoot) : undefined;
+
+	let rules: LintRules = {};
+	if (commitlintConfig && repoRoot) {
+		rules = await resolveRules(commitlintConfig, repoRoot);
+	} else if (conventionalCommitTypes.includes(config.type)) {
+		rules = { ...conventionalRules };
+
+		// Don't fight the capitalize-message setting
+		if (config["capitalize-message"]) {
+			rules["subject-case"] = [0];
+		}
+	}
+
+	const [level, , headerMaxLength] = rules["header-max-length"] ?? [];
+	rules["header-max-length"] = [
+		2,
+		"always",
+		level && typeof headerMaxLength === "number"
+			? Math.min(headerMaxLength, config["max-length"])
+			: config["max-length"],
+	];
+
+	return rules;
+};
+
+/**
+ * Check if a text matches a commitlint case
+ */
+const matchesCase = (text: string, textCase: string) => {
+	switch (textCase) {
+		case "lower-case":
+			return text === text.toLowerCase();
+		case "upper-case":
+			return text === text.toUpperCase();
+		case "sentence-case":
+			return /^[A-Z]/.test(text) && text.slice(1) === text.slice(1).toLowerCase();
+		case "start-case":
+			return text.split(/\s+/).every((word) => /^[A-Z]/.test(word));
+		case "pascal-case":
+			return /^[A-Z][a-zA-Z0-9]*$/.test(text);
+		case "camel-case":
+			return /^[a-z][a-zA-Z0-9]*$/.test(text);
+		case "kebab-case":
+			return /^[a-z0-9]+(-[a-z0-9]+)*$/.test(text);
+		case "snake-case":
+			return /^[a-z0-9]+(_[a-z0-9]+)*$/.test(text);
+		default:
+			return true;
+	}
+};
+
+const asList = (value: unknown) => [value ?? []].flat().map(String);
+
+/**
+ * Validate a commit message against lint rules
+ *
+ * @param message The commit message
+ * @param rules Lint rules
+ * @returns Descriptions of the broken rules, empty if the message is valid
+ */
+export const lintCommitMessage = (message: string, rules: LintRules): string[] => {
+	const [header = "", ...bodyLines] = message.split("\n");
+	const match = header.match(/^(\w+)(?:\(([^)]*)\))?!?: (.*)$/);
+	const parts: Record<string, string> = {
+		header,
+		type: match?.[1] ?? "",
+		scope: match?.[2] ?? "",
+		subject: match ? match[3] : header,
+		body: bodyLines.join("\n").trim(),
+	};
+
+	const violations: string[] = [];
+
+	for (const [name, [level, applicable = "always", value]] of Object.entries(rules)) {
+		if (level !== 2) {
+			continue;
+		}
+
+		const [part, check] = name.split(/-(.+)/);
+		const text = parts[part];
+		if (text === undefined) {
+			continue;
+		}
+
+		let holds: boolean;
+		let description: string;
+
+		switch (check) {
+			case "empty":
+				holds = text.length === 0;
+				description = `${part} may not be empty`;
+				break;
+			case "max-length":
+				// Checked for both applicable values, like commitlint
+				if (text.length > Number(value)) {
+					violations.push(
+						`${part} must not be longer than ${value} characters, current length is ${text.length}`,
+					);
+				}
+				continue;
+			case "min-length":
+				if (text.length < Number(value)) {
+					violations.push(`${part} must not be shorter than ${value} characters`);
+				}
+				continue;
+			case "max-line-length":
+				if (text.split("\n").some((line) => line.length > Number(value))) {
+					violations.push(`${part}'s lines must not be longer than ${value} characters`);
+				}
+				continue;
+			case "enum":
+				// Empty values are covered by the `empty` rules
+				if (!text) {
+					continue;
+				}
+				holds = asList(value).includes(text);
+				description = `${part} must ${
+					applicable === "never" ? "not " : ""
+				}be one of [${asList(value).join(", ")}]`;
+				break;
+			case "case":
+				if (!text) {
+					continue;
+				}
+				holds = asList(value).some((textCase) => matchesCase(text, textCase));
+				description = `${part} must ${applicable === "never" ? "not " : ""}be ${asList(
+					value,
+				).join(", ")}`;
+				break;
+			case "full-stop":
+				holds = text.endsWith(String(value ?? "."));
+				description = `${part} may not end with full stop`;
+				break;
+			case "leading-blank":
+				holds = !parts.body || message.split("\n")[1] === "";
+				description = `${part} must have leading blank line`;
+				break;
+			default:
+				continue;
+		}
+
+		// `never` rules must not hold, but the descriptions of the
+		// empty/full-stop rules are phrased for the common case
+		const valid = applicable === "never" ? !holds : holds;
+		if (!valid) {
+			violations.push(
+				applicable === "always" && (check === "empty" || check === "full-stop")
+					? description.replace("may not", "must")
+					: description,
+			);
+		}
+	}
+
+	return violations;
+};
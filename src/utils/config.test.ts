@@ -0,0 +1,231 @@
+import assert from "node:assert/strict";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, it } from "node:test";
+import { getConfig, getConfigSources, parseConfigValue, setConfigs } from "./config.js";
+import { type TestRepo, createTestRepo } from "./testing.js";
+
+const userConfigPath = path.join(os.homedir(), ".aicommits");
+
+describe("config", () => {
+	const initialDirectory = process.cwd();
+	let repo: TestRepo;
+
+	beforeEach(async () => {
+		repo = await createTestRepo();
+		process.chdir(repo.path);
+	});
+
+	afterEach(async () => {
+		process.chdir(initialDirectory);
+		Reflect.deleteProperty(process.env, "OPENAI_KEY");
+		await fs.rm(userConfigPath, { force: true });
+		await repo.remove();
+	});
+
+	it("resolves values from CLI > env > repo > user > defaults", async () => {
+		await fs.writeFile(
+			userConfigPath,
+			"OPENAI_KEY=user-key\nlocale=fr\nmax-length=60\ngenerate=2\n",
+		);
+		await repo.writeFile(".aicommitsrc", '{ "locale": "de", "max-length": 72 }\n');
+		process.env.OPENAI_KEY = "env-key";
+
+		const config = await getConfig({ "max-length": "80" });
+		const sources = await getConfigSources({ "max-length": "80" });
+
+		assert.equal(config["max-length"], 80);
+		assert.equal(config.OPENAI_KEY, "env-key");
+		assert.equal(config.locale, "de");
+		assert.equal(config.generate, 2);
+		assert.equal(config.timeout, 10000);
+		assert.deepEqual(sources["max-length"], { layer: "cli", path: undefined });
+		assert.deepEqual(sources.OPENAI_KEY, { layer: "env", path: undefined });
+		assert.deepEqual(sources.locale, {
+			layer: "repo",
+			path: path.join(repo.path, ".aicommitsrc"),
+		});
+		assert.deepEqual(sources.generate, { layer: "user", path: userConfigPath });
+		assert.deepEqual(sources.timeout, { layer: "default" });
+	});
+
+	it("defaults the model per provider", async () => {
+		assert.equal((await getConfig()).model, "gpt-3.5-turbo");
+		assert.equal(
+			(await getConfig({ provider: "anthropic" })).model,
+			"claude-3-5-haiku-latest",
+		);
+		assert.equal((await getConfig({ provider: "ollama" })).model, "llama3");
+		assert.equal((await getConfig({ provider: "azure" })).model, "");
+
+		await fs.writeFile(userConfigPath, "model=gpt-4o\n");
+		assert.equal((await getConfig({ provider: "ollama" })).model, "gpt-4o");
+	});
+
+	it("uses the nearest repository config above the current directory", async () => {
+		await repo.writeFile(".aicommitsrc", "locale=de\n");
+		await repo.writeFile(
+			"packages/app/package.json",
+			'{ "name": "app", "aicommits": { "locale": "es" } }\n',
+		);
+		await repo.writeFile("packages/lib/package.json", '{ "name": "lib" }\n');
+
+		process.chdir(path.join(repo.path, "packages/app"));
+		assert.equal((await getConfig()).locale, "es");
+
+		// package.json files without an aicommits key are skipped
+		process.chdir(path.join(repo.path, "packages/lib"));
+		assert.equal((await getConfig()).locale, "de");
+	});
+
+	it("ignores repository configs outside a Git repository", async () => {
+		const directory = await fs.mkdtemp(path.join(os.tmpdir(), "aicommits-"));
+		await fs.writeFile(path.join(directory, ".aicommitsrc"), "locale=de\n");
+		process.chdir(directory);
+
+		try {
+			assert.equal((await getConfig()).locale, "en");
+		} finally {
+			process.chdir(repo.path);
+			await fs.rm(directory, { recursive: true, force: true });
+		}
+	});
+
+	it("accepts commit types defined in config files", async () => {
+		await fs.writeFile(userConfigPath, '[types.ticket]\nformat="[<ticket>] <message>"\n');
+		await repo.writeFile(".aicommitsrc", '{ "type": "ticket" }\n');
+
+		assert.equal((await getConfig()).type, "ticket");
+		await assert.rejects(getConfig({ type: "unknown" }), {
+			message: /Invalid config property type: Must be one of: .*ticket/,
+		});
+	});
+
+	it("resolves prompt templates relative to the config file", async () => {
+		await fs.writeFile(userConfigPath, "prompt-template=~/prompt.txt\n");
+		assert.equal(
+			(await getConfig())["prompt-template"],
+			path.join(os.homedir(), "prompt.txt"),
+		);
+
+		await fs.writeFile(userConfigPath, "prompt-template=prompts/commit.txt\n");
+		assert.equal(
+			(await getConfig())["prompt-template"],
+			path.join(os.homedir(), "prompts/commit.txt"),
+		);
+	});
+
+	it("keeps connection, credential and safety settings out of the repository config", async () => {
+		await repo.writeFile(
+			"package.json",
+			'{ "aicommits": { "base-url": "https://example.com", "redact": false } }\n',
+		);
+
+		await assert.rejects(getConfig(), {
+			message: `base-url, redact cannot be set in the repository config (${path.join(
+				repo.path,
+				"package.json",
+			)}), set them in ~/.aicommits instead`,
+		});
+		await assert.rejects(setConfigs([["api-key", "secret"]], true), {
+			message: /^api-key cannot be set in the repository config/,
+		});
+		await assert.rejects(setConfigs([["sensitive-files-action", "allow"]], true), {
+			message: /^sensitive-files-action cannot be set in the repository config/,
+		});
+	});
+
+	it("accepts prompt templates inside the repository from the repository config", async () => {
+		await repo.writeFile(".aicommitsrc", "prompt-template=prompts/commit.txt\n");
+		assert.equal(
+			(await getConfig())["prompt-template"],
+			path.join(repo.path, "prompts/commit.txt"),
+		);
+
+		await repo.writeFile(".aicommitsrc", "prompt-template=../home/.aicommits\n");
+		await assert.rejects(getConfig(), {
+			message:
+				/^prompt-template in the repository config \(.*\) must be a file inside the repository/,
+		});
+
+		// Symlinks cannot point the template outside the repository either
+		await fs.writeFile(userConfigPath, "");
+		await fs.symlink(userConfigPath, path.join(repo.path, "prompt.txt"));
+		await assert.rejects(setConfigs([["prompt-template", "prompt.txt"]], true), {
+			message: /must be a file inside the repository/,
+		});
+		await repo.writeFile(".aicommitsrc", "");
+		await setConfigs([["prompt-template", "prompts/commit.txt"]], true);
+		assert.equal(
+			await fs.readFile(path.join(repo.path, ".aicommitsrc"), "utf8"),
+			"prompt-template=prompts/commit.txt\n",
+		);
+	});
+
+	it("validates single values", () => {
+		assert.equal(parseConfigValue("type", "gitmoji"), "gitmoji");
+		assert.equal(parseConfigValue("locale", "de"), "de");
+		assert.throws(() => parseConfigValue("generate", "9"), {
+			message: /Invalid config property generate/,
+		});
+		assert.deepEqual(
+			parseConfigValue("branch-prefix-patterns", "gh-(\\d+), ,[A-Z]+-\\d+"),
+			["gh-(\\d+)", "[A-Z]+-\\d+"],
+		);
+		assert.throws(() => parseConfigValue("branch-prefix-patterns", "gh-(\\d+"), {
+			message: /Invalid regular expression gh-\(\\d\+/,
+		});
+		assert.throws(() => parseConfigValue("max-attempts", "11"), {
+			message: /Must be between 1 and 10/,
+		});
+		assert.deepEqual(parseConfigValue("fallback-models", "gpt-4o-mini, ,gpt-4.1-nano"), [
+			"gpt-4o-mini",
+			"gpt-4.1-nano",
+		]);
+		assert.equal(
+			parseConfigValue("proxy", "socks5://127.0.0.1:1080"),
+			"socks5://127.0.0.1:1080",
+		);
+		assert.throws(() => parseConfigValue("proxy", "ftp://proxy"), {
+			message: /Must be an http:\/\/, https:\/\/ or socks5:\/\/ URL/,
+		});
+		assert.throws(() => parseConfigValue("branch-prefix-format", "{message}"), {
+			message: /Must contain the \{ticket\} placeholder/,
+		});
+	});
+
+	it("writes to the repository config with local", async () => {
+		await setConfigs([["locale", "de"]], true);
+		assert.equal(
+			await fs.readFile(path.join(repo.path, ".aicommitsrc"), "utf8"),
+			"locale=de\n",
+		);
+
+		// Existing repository configs keep their format
+		await repo.writeFile(
+			"package.json",
+			'{ "name": "app", "aicommits": { "locale": "de" } }\n',
+		);
+		await fs.rm(path.join(repo.path, ".aicommitsrc"));
+		await setConfigs([["body", "yes"]], true);
+		assert.deepEqual(
+			JSON.parse(await fs.readFile(path.join(repo.path, "package.json"), "utf8")),
+			{ name: "app", aicommits: { locale: "de", body: "true" } },
+		);
+
+		await setConfigs([["locale", "fr"]]);
+		assert.equal(await fs.readFile(userConfigPath, "utf8"), "locale=fr\n");
+	});
+
+	it("removes keys set to an empty value", async () => {
+		await setConfigs([
+			["base-url", "https://example.com/v1"],
+			["locale", "fr"],
+		]);
+		await setConfigs([["base-url", ""]]);
+
+		assert.equal(await fs.readFile(userConfigPath, "utf8"), "locale=fr\n");
+		assert.equal((await getConfig())["base-url"], undefined);
+	});
+});
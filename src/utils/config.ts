@@ -3,14 +3,42 @@ import path from "node:path";
 import os from "node:os";
 import ini from "ini";
 import type { TiktokenModel } from "@dqbd/tiktoken";
-import { KnownError } from "./error.js";
+import { ConfigError, KnownError } from "./error.js";
+import { assertGitRepo } from "./git.js";
+import {
+	type CommitTypeDefinition,
+	getCommitTypeNames,
+	registerCommitTypes,
+} from "./commit-types.js";
 
-// Available commit types
-const commitTypes = ["", "conventional"] as const;
-export type CommitType = (typeof commitTypes)[number];
+// Commit types are registered at runtime, see `commit-types.ts`
+export type CommitType = string;
+
+// Available LLM providers
+const providerNames = [
+	"openai",
+	"openai-compatible",
+	"ollama",
+	"anthropic",
+	"azure",
+] as const;
+export type ProviderName = (typeof providerNames)[number];
+
+// What to do when staged files match the `sensitive-files` globs
+const sensitiveFilesActions = ["warn", "block"] as const;
+export type SensitiveFilesAction = (typeof sensitiveFilesActions)[number];
+
+// What happens when the monthly budget is used up
+const budgetActions = ["warn", "block"] as const;
+export type BudgetAction = (typeof budgetActions)[number];
+
+// Where the ticket of the branch goes in the commit message
+const branchPrefixPlacements = ["subject", "trailer"] as const;
+export type BranchPrefixPlacement = (typeof branchPrefixPlacements)[number];
 
 // Default configuration values
 const DEFAULT_CONFIG = {
+	provider: "openai" as ProviderName,
 	model: "gpt-3.5-turbo" as TiktokenModel,
 	locale: "en",
 	generate: 1,
@@ -18,7 +46,66 @@ const DEFAULT_CONFIG = {
 	"max-length": 50,
 	type: "" as CommitType,
 	"use-branch-prefix": false,
+	// Jira/Linear keys anywhere, GitHub issue numbers at the start of the name
+	"branch-prefix-patterns": [
+		"(?<![A-Z0-9])[A-Z][A-Z0-9]+-\\d+(?![A-Z0-9])",
+		"^(?:[\\w.-]+/)?(\\d+)-",
+	],
+	"branch-prefix-format": "{ticket}: {message}",
+	"branch-prefix-placement": "subject" as BranchPrefixPlacement,
+	"protected-branches": ["main", "master", "develop"],
+	// Trailers added to every new commit, e.g. `Reviewed-by: Jane Doe <jane@example.com>`
+	trailers: [] as string[],
+	signoff: false,
+	"pair-session-hours": 8,
 	"capitalize-message": false,
+	body: false,
+	exclude: [] as string[],
+	lint: true,
+	"lint-retries": 2,
+	"style-from-history": false,
+	"history-size": 20,
+	"history-same-paths": false,
+	stream: true,
+	"context-lines": 3,
+	"ignore-whitespace": false,
+	redact: true,
+	"redact-patterns": [] as string[],
+	"sensitive-files": [
+		".env",
+		".env.*",
+		"*.pem",
+		"*.key",
+		"*.p12",
+		"*.pfx",
+		"*.keystore",
+		"id_rsa*",
+		"id_ed25519*",
+		"credentials.json",
+	],
+	"sensitive-files-action": "warn" as SensitiveFilesAction,
+	cache: true,
+	"cache-ttl": 24,
+	"cache-size": 100,
+	"max-attempts": 3,
+	"fallback-models": [] as string[],
+	"usage-log": true,
+	// USD per million tokens as `model=input/output`, extending the built-in prices
+	"model-prices": [] as string[],
+	// Monthly limit in USD, 0 for none
+	budget: 0,
+	"budget-action": "warn" as BudgetAction,
+	// Hosts reached without the proxy, e.g. `internal.example.com,.corp`
+	"no-proxy": [] as string[],
+};
+
+// Model used when none is configured, endpoints without a known model need one set
+const defaultModels: Record<ProviderName, string> = {
+	openai: DEFAULT_CONFIG.model,
+	anthropic: "claude-3-5-haiku-latest",
+	ollama: "llama3",
+	azure: "",
+	"openai-compatible": "",
 };
 
 /**
@@ -32,21 +119,110 @@ export const hasOwn = (object: unknown, key: PropertyKey) =>
  */
 const parseAssert = (name: string, condition: boolean, message: string) => {
 	if (!condition) {
-		throw new KnownError(`Invalid config property ${name}: ${message}`);
+		throw new ConfigError(`Invalid config property ${name}: ${message}`);
 	}
 };
 
+// Config properties holding boolean values
+const booleanKeys: string[] = [
+	"use-branch-prefix",
+	"signoff",
+	"capitalize-message",
+	"body",
+	"lint",
+	"style-from-history",
+	"history-same-paths",
+	"ignore-whitespace",
+	"stream",
+	"redact",
+	"cache",
+	"usage-log",
+];
+
+/**
+ * Parse a comma-separated list of regular expressions
+ */
+const parseRegExpList = (name: string, patterns: string) => {
+	const list = patterns
+		.split(",")
+		.map((pattern) => pattern.trim())
+		.filter(Boolean);
+	for (const pattern of list) {
+		try {
+			new RegExp(pattern);
+		} catch {
+			parseAssert(name, false, `Invalid regular expression ${pattern}`);
+		}
+	}
+	return list;
+};
+
+/**
+ * Parse common string representations of a boolean value
+ */
+const parseBoolean = (name: string, value: string | undefined, defaultValue: boolean) => {
+	// If no value is provided, return default
+	if (value === undefined || value === null || value === "") {
+		return defaultValue;
+	}
+
+	// Handle common string representations of boolean values
+	const lowerValue = String(value).toLowerCase().trim();
+
+	// Accept various forms of true/false values
+	if (["true", "1", "yes", "y", "on"].includes(lowerValue)) {
+		return true;
+	}
+
+	if (["false", "0", "no", "n", "off"].includes(lowerValue)) {
+		return false;
+	}
+
+	// If we get here, it's an invalid value
+	parseAssert(name, false, "Must be either 'true' or 'false'");
+
+	// This won't be reached due to the assert above, but TypeScript needs it
+	return defaultValue;
+};
+
 /**
  * Configuration parsers for validating and transforming user input
  */
 const configParsers = {
+	// Whether a key is required depends on the provider, see `getProvider`
 	OPENAI_KEY(key?: string) {
 		if (!key) {
-			throw new KnownError(
-				"Please set your OpenAI API key via `aicommits config set OPENAI_KEY=<your token>`",
-			);
+			return undefined;
+		}
+		return key;
+	},
+
+	provider(provider?: string) {
+		if (!provider) {
+			return DEFAULT_CONFIG.provider;
+		}
+
+		parseAssert(
+			"provider",
+			providerNames.includes(provider as ProviderName),
+			`Must be one of: ${providerNames.join(", ")}`,
+		);
+		return provider as ProviderName;
+	},
+
+	"base-url"(url?: string) {
+		if (!url) {
+			return undefined;
+		}
+
+		parseAssert("base-url", /^https?:\/\//.test(url), "Must be a valid URL");
+		return url;
+	},
+
+	"api-key"(key?: string) {
+		if (!key) {
+			return undefined;
 		}
-		parseAssert("OPENAI_KEY", key.startsWith("sk-"), 'Must start with "sk-"');
 		return key;
 	},
 
@@ -83,18 +259,196 @@ const configParsers = {
 			return DEFAULT_CONFIG.type;
 		}
 
-		parseAssert("type", commitTypes.includes(type as CommitType), "Invalid commit type");
-		return type as CommitType;
+		parseAssert(
+			"type",
+			getCommitTypeNames().includes(type),
+			`Must be one of: ${getCommitTypeNames()
+				.filter(Boolean)
+				.join(", ")} (or empty for standard)`,
+		);
+		return type;
+	},
+
+	"prompt-template"(file?: string) {
+		if (!file) {
+			return undefined;
+		}
+		return file;
+	},
+
+	stream(value?: string) {
+		return parseBoolean("stream", value, DEFAULT_CONFIG.stream);
+	},
+	"context-lines"(lines?: string) {
+		if (!lines) {
+			return DEFAULT_CONFIG["context-lines"];
+		}
+
+		parseAssert("context-lines", /^\d+$/.test(lines), "Must be an integer");
+
+		const parsed = Number(lines);
+		parseAssert("context-lines", parsed <= 20, "Must be less or equal to 20");
+		return parsed;
+	},
+	"ignore-whitespace"(value?: string) {
+		return parseBoolean("ignore-whitespace", value, DEFAULT_CONFIG["ignore-whitespace"]);
+	},
+	redact(value?: string) {
+		return parseBoolean("redact", value, DEFAULT_CONFIG.redact);
+	},
+	"redact-patterns"(patterns?: string) {
+		if (!patterns) {
+			return DEFAULT_CONFIG["redact-patterns"];
+		}
+
+		return parseRegExpList("redact-patterns", patterns);
+	},
+	"sensitive-files"(patterns?: string) {
+		if (!patterns) {
+			return DEFAULT_CONFIG["sensitive-files"];
+		}
+
+		return patterns
+			.split(",")
+			.map((pattern) => pattern.trim())
+			.filter(Boolean);
+	},
+	"sensitive-files-action"(action?: string) {
+		if (!action) {
+			return DEFAULT_CONFIG["sensitive-files-action"];
+		}
+
+		parseAssert(
+			"sensitive-files-action",
+			sensitiveFilesActions.includes(action as SensitiveFilesAction),
+			`Must be one of: ${sensitiveFilesActions.join(", ")}`,
+		);
+		return action as SensitiveFilesAction;
+	},
+	cache(value?: string) {
+		return parseBoolean("cache", value, DEFAULT_CONFIG.cache);
+	},
+	"cache-ttl"(hours?: string) {
+		if (!hours) {
+			return DEFAULT_CONFIG["cache-ttl"];
+		}
+
+		parseAssert("cache-ttl", /^\d+$/.test(hours), "Must be an integer (hours)");
+		return Number(hours);
 	},
+	"cache-size"(size?: string) {
+		if (!size) {
+			return DEFAULT_CONFIG["cache-size"];
+		}
+
+		parseAssert("cache-size", /^\d+$/.test(size), "Must be an integer");
 
+		const parsed = Number(size);
+		parseAssert("cache-size", parsed > 0, "Must be greater than 0");
+		return parsed;
+	},
+	"max-attempts"(attempts?: string) {
+		if (!attempts) {
+			return DEFAULT_CONFIG["max-attempts"];
+		}
+
+		parseAssert("max-attempts", /^\d+$/.test(attempts), "Must be an integer");
+
+		const parsed = Number(attempts);
+		parseAssert("max-attempts", parsed >= 1 && parsed <= 10, "Must be between 1 and 10");
+		return parsed;
+	},
+	"fallback-models"(models?: string) {
+		if (!models) {
+			return DEFAULT_CONFIG["fallback-models"];
+		}
+
+		return models
+			.split(",")
+			.map((model) => model.trim())
+			.filter(Boolean);
+	},
+	"usage-log"(value?: string) {
+		return parseBoolean("usage-log", value, DEFAULT_CONFIG["usage-log"]);
+	},
+	"model-prices"(prices?: string) {
+		if (!prices) {
+			return DEFAULT_CONFIG["model-prices"];
+		}
+
+		const list = prices
+			.split(",")
+			.map((price) => price.trim())
+			.filter(Boolean);
+		for (const price of list) {
+			parseAssert(
+				"model-prices",
+				/^.+=\d+(\.\d+)?\/\d+(\.\d+)?$/.test(price),
+				`Invalid price ${price}, must look like "model=input/output" in USD per million tokens`,
+			);
+		}
+		return list;
+	},
+	budget(budget?: string) {
+		if (!budget) {
+			return DEFAULT_CONFIG.budget;
+		}
+
+		parseAssert("budget", /^\d+(\.\d+)?$/.test(budget), "Must be a number (USD)");
+		return Number(budget);
+	},
+	"budget-action"(action?: string) {
+		if (!action) {
+			return DEFAULT_CONFIG["budget-action"];
+		}
+
+		parseAssert(
+			"budget-action",
+			budgetActions.includes(action as BudgetAction),
+			`Must be one of: ${budgetActions.join(", ")}`,
+		);
+		return action as BudgetAction;
+	},
+	"pr-base"(branch?: string) {
+		if (!branch) {
+			return undefined;
+		}
+		return branch;
+	},
+	"pr-template"(file?: string) {
+		if (!file) {
+			return undefined;
+		}
+		return file;
+	},
 	proxy(url?: string) {
 		if (!url || url.length === 0) {
 			return undefined;
 		}
 
-		parseAssert("proxy", /^https?:\/\//.test(url), "Must be a valid URL");
+		parseAssert(
+			"proxy",
+			/^(https?|socks5h?):\/\/[^/]/.test(url),
+			"Must be an http://, https:// or socks5:// URL",
+		);
 		return url;
 	},
+	"no-proxy"(hosts?: string) {
+		if (!hosts) {
+			return DEFAULT_CONFIG["no-proxy"];
+		}
+
+		return hosts
+			.split(",")
+			.map((host) => host.trim())
+			.filter(Boolean);
+	},
+	"ca-file"(file?: string) {
+		if (!file) {
+			return undefined;
+		}
+		return file;
+	},
 
 	model(model?: string) {
 		if (!model || model.length === 0) {
@@ -127,57 +481,169 @@ const configParsers = {
 		return parsed;
 	},
 
+	"max-diff-tokens"(maxDiffTokens?: string) {
+		if (!maxDiffTokens) {
+			return undefined;
+		}
+
+		parseAssert("max-diff-tokens", /^\d+$/.test(maxDiffTokens), "Must be an integer");
+
+		const parsed = Number(maxDiffTokens);
+		parseAssert("max-diff-tokens", parsed >= 500, "Must be greater than 500 tokens");
+		return parsed;
+	},
+
+	exclude(patterns?: string) {
+		if (!patterns) {
+			return DEFAULT_CONFIG.exclude;
+		}
+
+		return patterns
+			.split(",")
+			.map((pattern) => pattern.trim())
+			.filter(Boolean);
+	},
+
 	"use-branch-prefix"(value?: string) {
-		// If no value is provided, return default
-		if (value === undefined || value === null || value === "") {
-			return DEFAULT_CONFIG["use-branch-prefix"];
+		return parseBoolean("use-branch-prefix", value, DEFAULT_CONFIG["use-branch-prefix"]);
+	},
+	"branch-prefix-patterns"(patterns?: string) {
+		if (!patterns) {
+			return DEFAULT_CONFIG["branch-prefix-patterns"];
+		}
+
+		return parseRegExpList("branch-prefix-patterns", patterns);
+	},
+	"branch-prefix-format"(format?: string) {
+		if (!format) {
+			return DEFAULT_CONFIG["branch-prefix-format"];
+		}
+
+		parseAssert(
+			"branch-prefix-format",
+			format.includes("{ticket}"),
+			"Must contain the {ticket} placeholder",
+		);
+		return format;
+	},
+	"branch-prefix-placement"(placement?: string) {
+		if (!placement) {
+			return DEFAULT_CONFIG["branch-prefix-placement"];
 		}
 
-		// Handle common string representations of boolean values
-		const lowerValue = String(value).toLowerCase().trim();
+		parseAssert(
+			"branch-prefix-placement",
+			branchPrefixPlacements.includes(placement as BranchPrefixPlacement),
+			`Must be one of: ${branchPrefixPlacements.join(", ")}`,
+		);
+		return placement as BranchPrefixPlacement;
+	},
+	"protected-branches"(branches?: string) {
+		if (!branches) {
+			return DEFAULT_CONFIG["protected-branches"];
+		}
 
-		// Accept various forms of true/false values
-		if (["true", "1", "yes", "y", "on"].includes(lowerValue)) {
-			return true;
+		return branches
+			.split(",")
+			.map((branch) => branch.trim())
+			.filter(Boolean);
+	},
+	trailers(trailers?: string) {
+		if (!trailers) {
+			return DEFAULT_CONFIG.trailers;
 		}
 
-		if (["false", "0", "no", "n", "off"].includes(lowerValue)) {
-			return false;
+		const list = trailers
+			.split(",")
+			.map((trailer) => trailer.trim())
+			.filter(Boolean);
+		for (const trailer of list) {
+			parseAssert(
+				"trailers",
+				/^[\w-]+:\s*\S/.test(trailer),
+				`Invalid trailer ${trailer}, must look like "Key: value"`,
+			);
+		}
+		return list;
+	},
+	signoff(value?: string) {
+		return parseBoolean("signoff", value, DEFAULT_CONFIG.signoff);
+	},
+	"pair-session-hours"(hours?: string) {
+		if (!hours) {
+			return DEFAULT_CONFIG["pair-session-hours"];
 		}
 
-		// If we get here, it's an invalid value
-		parseAssert("use-branch-prefix", false, "Must be either 'true' or 'false'");
+		parseAssert("pair-session-hours", /^\d+$/.test(hours), "Must be an integer (hours)");
 
-		// This won't be reached due to the assert above, but TypeScript needs it
-		return DEFAULT_CONFIG["use-branch-prefix"];
+		const parsed = Number(hours);
+		parseAssert("pair-session-hours", parsed > 0, "Must be greater than 0");
+		return parsed;
 	},
 
 	"capitalize-message"(value?: string) {
-		// If no value is provided, return default
-		if (value === undefined || value === null || value === "") {
-			return DEFAULT_CONFIG["capitalize-message"];
-		}
+		return parseBoolean(
+			"capitalize-message",
+			value,
+			DEFAULT_CONFIG["capitalize-message"],
+		);
+	},
 
-		// Handle common string representations of boolean values
-		const lowerValue = String(value).toLowerCase().trim();
+	body(value?: string) {
+		return parseBoolean("body", value, DEFAULT_CONFIG.body);
+	},
+
+	lint(value?: string) {
+		return parseBoolean("lint", value, DEFAULT_CONFIG.lint);
+	},
 
-		// Accept various forms of true/false values
-		if (["true", "1", "yes", "y", "on"].includes(lowerValue)) {
-			return true;
+	"lint-retries"(retries?: string) {
+		if (!retries) {
+			return DEFAULT_CONFIG["lint-retries"];
 		}
 
-		if (["false", "0", "no", "n", "off"].includes(lowerValue)) {
-			return false;
+		parseAssert("lint-retries", /^\d+$/.test(retries), "Must be an integer");
+
+		const parsed = Number(retries);
+		parseAssert("lint-retries", parsed <= 5, "Must be less or equal to 5");
+		return parsed;
+	},
+	"style-from-history"(value?: string) {
+		return parseBoolean(
+			"style-from-history",
+			value,
+			DEFAULT_CONFIG["style-from-history"],
+		);
+	},
+	"history-size"(size?: string) {
+		if (!size) {
+			return DEFAULT_CONFIG["history-size"];
 		}
 
-		// If we get here, it's an invalid value
-		parseAssert("capitalize-message", false, "Must be either 'true' or 'false'");
+		parseAssert("history-size", /^\d+$/.test(size), "Must be an integer");
 
-		// This won't be reached due to the assert above, but TypeScript needs it
-		return DEFAULT_CONFIG["capitalize-message"];
+		const parsed = Number(size);
+		parseAssert("history-size", parsed > 0, "Must be greater than 0");
+		parseAssert("history-size", parsed <= 100, "Must be less or equal to 100");
+		return parsed;
+	},
+	"history-same-paths"(value?: string) {
+		return parseBoolean(
+			"history-same-paths",
+			value,
+			DEFAULT_CONFIG["history-same-paths"],
+		);
 	},
 } as const;
 
+/**
+ * Validate a single config value, e.g. to override it for one run
+ *
+ * @throws {ConfigError} If the value is invalid
+ */
+export const parseConfigValue = <Key extends ConfigKeys>(key: Key, value: string) =>
+	configParsers[key](value) as ValidConfig[Key];
+
 // Type definitions for configuration
 type ConfigKeys = keyof typeof configParsers;
 
@@ -207,65 +673,293 @@ export const fileExists = async (filePath: string): Promise<boolean> => {
 // Path to the config file in the user's home directory
 const configPath = path.join(os.homedir(), ".aicommits");
 
+// Name of the per-repository config file
+const repoConfigName = ".aicommitsrc";
+
+/**
+ * Where a config value came from, in order of precedence
+ */
+export type ConfigLayer = "cli" | "env" | "repo" | "user" | "default";
+
+export type ConfigSource = {
+	layer: ConfigLayer;
+	path?: string;
+};
+
+/**
+ * A config file on disk, either the user config or a repository config
+ */
+type ConfigFile = {
+	path: string;
+	format: "ini" | "json" | "package.json";
+	config: RawConfig;
+	types?: Record<string, Partial<CommitTypeDefinition>>;
+};
+
+// Config properties holding file paths, resolved relative to the config file
+const pathKeys: ConfigKeys[] = ["prompt-template", "pr-template", "ca-file"];
+
+// Config properties choosing where the diff is sent, with which credentials, which
+// local files are read into prompts, or what is kept out of the diff and the spend.
+// A cloned repository must not set them.
+const userOnlyKeys: ConfigKeys[] = [
+	"OPENAI_KEY",
+	"api-key",
+	"provider",
+	"base-url",
+	"proxy",
+	"no-proxy",
+	"ca-file",
+	"pr-template",
+	"redact",
+	"redact-patterns",
+	"sensitive-files",
+	"sensitive-files-action",
+	"budget-action",
+];
+
 /**
- * Read the configuration file from disk
+ * Throw if a repository config sets properties that are only read from the user config
  */
-const readConfigFile = async (): Promise<RawConfig> => {
-	const configExists = await fileExists(configPath);
+const assertRepoConfigKeys = (keys: string[], filePath: string) => {
+	const disallowed = keys.filter((key) => userOnlyKeys.includes(key as ConfigKeys));
+	if (disallowed.length > 0) {
+		throw new ConfigError(
+			`${disallowed.join(
+				", ",
+			)} cannot be set in the repository config (${filePath}), set ${
+				disallowed.length === 1 ? "it" : "them"
+			} in ~/.aicommits instead`,
+		);
+	}
+};
+
+/**
+ * Throw if a repository config points the prompt template outside the repository,
+ * following symlinks so a template cannot read other local files into the prompt
+ */
+const assertRepoConfigPaths = async (
+	config: RawConfig,
+	filePath: string,
+	repoRoot: string,
+) => {
+	const template = config["prompt-template"];
+	if (!template) {
+		return;
+	}
+
+	const realPath = (file: string) => fs.realpath(file).catch(() => path.resolve(file));
+	const relative = path.relative(await realPath(repoRoot), await realPath(template));
+	if (relative.startsWith("..") || path.isAbsolute(relative)) {
+		throw new ConfigError(
+			`prompt-template in the repository config (${filePath}) must be a file inside the repository, set it in ~/.aicommits instead`,
+		);
+	}
+};
+
+/**
+ * Normalize parsed config values to strings, as they are written on the CLI
+ */
+const normalizeConfig = (parsed: Record<string, unknown>): RawConfig => {
+	const config: Record<string, string> = {};
+
+	for (const [key, value] of Object.entries(parsed)) {
+		// Skip sections such as `types`, they are read separately
+		if (
+			value === undefined ||
+			value === null ||
+			(typeof value === "object" && !Array.isArray(value))
+		) {
+			continue;
+		}
+		config[key] = Array.isArray(value) ? value.join(",") : String(value);
+	}
+
+	// Process boolean config properties to ensure they're properly parsed
+	for (const prop of booleanKeys) {
+		if (config[prop] !== undefined) {
+			const value = config[prop].toLowerCase().trim();
+
+			// Convert to proper boolean
+			if (["true", "1", "yes", "y", "on"].includes(value)) {
+				config[prop] = "true";
+			}
+		}
+	}
+
+	return config;
+};
+
+/**
+ * Read a config file from disk, in INI or JSON format
+ */
+const readConfigFile = async (filePath: string): Promise<ConfigFile> => {
+	const configFile: ConfigFile = { path: filePath, format: "ini", config: {} };
+
+	const configExists = await fileExists(filePath);
 	if (!configExists) {
-		return {};
+		return configFile;
 	}
 
 	try {
-		const configString = await fs.readFile(configPath, "utf8");
-		const parsed = ini.parse(configString);
-
-		// Process boolean config properties to ensure they're properly parsed
-		const booleanProps = ["use-branch-prefix", "capitalize-message"];
-		for (const prop of booleanProps) {
-			if (parsed[prop] !== undefined) {
-				const value = String(parsed[prop])
-					.toLowerCase()
-					.trim();
-
-				// Convert to proper boolean
-				if (["true", "1", "yes", "y", "on"].includes(value)) {
-					parsed[prop] = "true";
-				}
-			}
+		const configString = await fs.readFile(filePath, "utf8");
+
+		let parsed: Record<string, unknown>;
+		if (path.basename(filePath) === "package.json") {
+			configFile.format = "package.json";
+			parsed = JSON.parse(configString).aicommits ?? {};
+		} else if (configString.trimStart().startsWith("{")) {
+			configFile.format = "json";
+			parsed = JSON.parse(configString);
+		} else {
+			parsed = ini.parse(configString);
 		}
 
-		return parsed;
+		configFile.config = normalizeConfig(parsed);
+		if (parsed.types && typeof parsed.types === "object") {
+			configFile.types = parsed.types as ConfigFile["types"];
+		}
 	} catch (error) {
-		console.error("Error reading config file:", error);
-		return {};
+		console.error(`Error reading config file ${filePath}:`, error);
+	}
+
+	return configFile;
+};
+
+/**
+ * Get the root of the current Git repository, if any
+ */
+const getRepoRoot = async () => {
+	try {
+		return await assertGitRepo();
+	} catch {
+		return undefined;
 	}
 };
 
 /**
- * Get the validated configuration, merging file config with CLI options
+ * Find the repository config, searching upward from the current directory
+ * to the repository root. A `.aicommitsrc` file or an `aicommits` key in
+ * `package.json` are both accepted, the nearest one wins.
+ */
+const findRepoConfigFile = async (): Promise<ConfigFile | undefined> => {
+	const repoRoot = await getRepoRoot();
+	if (!repoRoot) {
+		return undefined;
+	}
+
+	const root = path.resolve(repoRoot);
+	let directory = process.cwd();
+
+	while (true) {
+		const rcPath = path.join(directory, repoConfigName);
+		if (await fileExists(rcPath)) {
+			return readConfigFile(rcPath);
+		}
+
+		const packageJsonPath = path.join(directory, "package.json");
+		if (await fileExists(packageJsonPath)) {
+			const packageConfig = await readConfigFile(packageJsonPath);
+			if (Object.keys(packageConfig.config).length > 0) {
+				return packageConfig;
+			}
+		}
+
+		const parent = path.dirname(directory);
+		if (directory === root || parent === directory) {
+			return undefined;
+		}
+		directory = parent;
+	}
+};
+
+/**
+ * Read config values from environment variables
+ */
+const readEnvConfig = (): RawConfig => {
+	const { env } = process;
+
+	return {
+		OPENAI_KEY: env.OPENAI_KEY || env.OPENAI_API_KEY,
+		proxy: env.https_proxy || env.HTTPS_PROXY || env.http_proxy || env.HTTP_PROXY,
+		"no-proxy": env.no_proxy || env.NO_PROXY,
+	};
+};
+
+/**
+ * Resolve relative paths in a config file against the file's directory
+ */
+const resolveConfigPaths = ({ path: filePath, config }: ConfigFile): RawConfig => {
+	const resolved = { ...config };
+	for (const key of pathKeys) {
+		const value = resolved[key];
+		if (value) {
+			resolved[key] = path.resolve(
+				path.dirname(filePath),
+				value.replace(/^~(?=$|\/)/, os.homedir()),
+			);
+		}
+	}
+	return resolved;
+};
+
+/**
+ * Register the commit types defined in the user and repository config,
+ * so repository types override user types with the same name
+ */
+const registerConfigCommitTypes = (...configFiles: (ConfigFile | undefined)[]) => {
+	for (const configFile of configFiles) {
+		if (configFile?.types) {
+			registerCommitTypes(configFile.types);
+		}
+	}
+};
+
+/**
+ * Get all config layers, from highest to lowest precedence
+ */
+const getConfigLayers = async (cliConfig?: RawConfig) => {
+	const repoConfig = await findRepoConfigFile();
+	const userConfig = await readConfigFile(configPath);
+	registerConfigCommitTypes(userConfig, repoConfig);
+
+	const layers: (ConfigSource & { config: RawConfig })[] = [
+		{ layer: "cli", config: cliConfig ?? {} },
+		{ layer: "env", config: readEnvConfig() },
+	];
+	if (repoConfig) {
+		assertRepoConfigKeys(Object.keys(repoConfig.config), repoConfig.path);
+		const config = resolveConfigPaths(repoConfig);
+		await assertRepoConfigPaths(
+			config,
+			repoConfig.path,
+			(await getRepoRoot()) ?? path.dirname(repoConfig.path),
+		);
+		layers.push({ layer: "repo", path: repoConfig.path, config });
+	}
+	layers.push({
+		layer: "user",
+		path: userConfig.path,
+		config: resolveConfigPaths(userConfig),
+	});
+
+	return layers;
+};
+
+/**
+ * Get the validated configuration, merging CLI options, environment variables,
+ * the repository config and the user config (in that order of precedence)
  */
 export const getConfig = async (
 	cliConfig?: RawConfig,
 	suppressErrors = false,
 ): Promise<ValidConfig> => {
-	const config = await readConfigFile();
+	const layers = await getConfigLayers(cliConfig);
 	const parsedConfig: Record<string, unknown> = {};
 
 	for (const key of Object.keys(configParsers) as ConfigKeys[]) {
 		const parser = configParsers[key];
-
-		// Special handling for boolean config properties
-		// If they're explicitly set in the file config, they should take precedence
-		let value: string | undefined;
-		if (
-			(key === "use-branch-prefix" || key === "capitalize-message") &&
-			config[key] === "true"
-		) {
-			value = config[key];
-		} else {
-			value = cliConfig?.[key] ?? config[key];
-		}
+		const value = layers.find((layer) => layer.config[key] !== undefined)?.config[key];
 
 		if (suppressErrors) {
 			try {
@@ -285,24 +979,106 @@ export const getConfig = async (
 		}
 	}
 
+	// The default model only exists on OpenAI, other providers have their own
+	if (!layers.some(({ config }) => config.model)) {
+		parsedConfig.model = defaultModels[parsedConfig.provider as ProviderName];
+	}
+
 	return parsedConfig as ValidConfig;
 };
 
 /**
- * Save configuration values to the config file
+ * Get the layer each config value comes from
+ */
+export const getConfigSources = async (
+	cliConfig?: RawConfig,
+): Promise<Record<string, ConfigSource>> => {
+	const layers = await getConfigLayers(cliConfig);
+	const sources: Record<string, ConfigSource> = {};
+
+	for (const key of Object.keys(configParsers)) {
+		const layer = layers.find(({ config }) => config[key as ConfigKeys] !== undefined);
+		sources[key] = layer
+			? { layer: layer.layer, path: layer.path }
+			: { layer: "default" };
+	}
+
+	return sources;
+};
+
+/**
+ * Serialize a config file back to its original format
+ */
+const stringifyConfigFile = async ({
+	path: filePath,
+	format,
+	config,
+	types,
+}: ConfigFile) => {
+	// Keep the commit type definitions, they are not part of `config`
+	const contents = types ? { ...config, types } : config;
+
+	if (format === "json") {
+		return `${JSON.stringify(contents, null, "\t")}\n`;
+	}
+
+	if (format === "package.json") {
+		const packageJson = JSON.parse(await fs.readFile(filePath, "utf8"));
+		packageJson.aicommits = contents;
+		return `${JSON.stringify(packageJson, null, "\t")}\n`;
+	}
+
+	return ini.stringify(contents);
+};
+
+/**
+ * Save configuration values to the user config file, or the repository config with `local`
  */
-export const setConfigs = async (keyValues: [key: string, value: string][]) => {
-	const config = await readConfigFile();
+export const setConfigs = async (
+	keyValues: [key: string, value: string][],
+	local = false,
+) => {
+	let configFile: ConfigFile;
+	const repoRoot = local ? await getRepoRoot() : undefined;
+	if (local) {
+		if (!repoRoot) {
+			throw new ConfigError("The --local flag can only be used inside a Git repository");
+		}
+		configFile =
+			(await findRepoConfigFile()) ??
+			(await readConfigFile(path.join(repoRoot, repoConfigName)));
+	} else {
+		configFile = await readConfigFile(configPath);
+	}
+	const { config } = configFile;
+
+	// Custom commit types must be known to validate `type`
+	registerConfigCommitTypes(
+		await readConfigFile(configPath),
+		local ? configFile : await findRepoConfigFile(),
+	);
 
 	for (const [key, value] of keyValues) {
 		if (!hasOwn(configParsers, key)) {
-			throw new KnownError(`Invalid config property: ${key}`);
+			throw new ConfigError(`Invalid config property: ${key}`);
+		}
+		if (local) {
+			assertRepoConfigKeys([key], configFile.path);
 		}
 
 		try {
 			const parsed = configParsers[key as ConfigKeys](value);
-			// Handle boolean values specially to ensure they're saved as 'true'/'false'
-			if (typeof parsed === "boolean") {
+			if (repoRoot) {
+				await assertRepoConfigPaths(
+					resolveConfigPaths({ ...configFile, config: { [key]: value } }),
+					configFile.path,
+					repoRoot,
+				);
+			}
+			// Clearing a value removes the key, so the default applies again
+			if (parsed === undefined) {
+				delete config[key as ConfigKeys];
+			} else if (typeof parsed === "boolean") {
 				config[key as ConfigKeys] = parsed ? "true" : "false";
 			} else {
 				config[key as ConfigKeys] = String(parsed);
@@ -311,13 +1087,13 @@ export const setConfigs = async (keyValues: [key: string, value: string][]) => {
 			if (error instanceof KnownError) {
 				throw error;
 			}
-			throw new KnownError(`Error setting ${key}: ${(error as Error).message}`);
+			throw new ConfigError(`Error setting ${key}: ${(error as Error).message}`);
 		}
 	}
 
 	try {
-		await fs.writeFile(configPath, ini.stringify(config), "utf8");
+		await fs.writeFile(configFile.path, await stringifyConfigFile(configFile), "utf8");
 	} catch (error) {
-		throw new KnownError(`Failed to save config: ${(error as Error).message}`);
+		throw new ConfigError(`Failed to save config: ${(error as Error).message}`);
 	}
 };
@@ -5,7 +5,95 @@ import pkg from "../../package.json";
  * Custom error class for known errors that should be displayed to the user
  * without a stack trace or additional debugging information
  */
-export class KnownError extends Error {}
+export class KnownError extends Error {
+	// Machine-readable error code, used in JSON output
+	readonly code: string = "KNOWN_ERROR";
+
+	// Exit code of the process when this error ends it
+	readonly exitCode: number = 1;
+}
+
+/**
+ * Invalid or missing configuration
+ */
+export class ConfigError extends KnownError {
+	readonly code = "CONFIG_ERROR";
+	readonly exitCode = 2;
+}
+
+/**
+ * A git command failed or the repository is in an unexpected state
+ */
+export class GitError extends KnownError {
+	readonly code = "GIT_ERROR";
+	readonly exitCode = 3;
+}
+
+/**
+ * There are no staged changes to generate a message for
+ */
+export class NoChangesError extends KnownError {
+	readonly code = "NO_STAGED_CHANGES";
+	readonly exitCode = 4;
+}
+
+/**
+ * The LLM provider failed or returned no usable result
+ */
+export class ProviderError extends KnownError {
+	readonly code = "PROVIDER_ERROR";
+	readonly exitCode = 5;
+}
+
+/**
+ * Sensitive files are changed and `sensitive-files-action` is `block`
+ */
+export class SensitiveFilesError extends KnownError {
+	readonly code = "SENSITIVE_FILES";
+	readonly exitCode = 6;
+}
+
+/**
+ * The monthly budget is used up and `budget-action` is `block`
+ */
+export class BudgetExceededError extends KnownError {
+	readonly code = "BUDGET_EXCEEDED";
+	readonly exitCode = 7;
+}
+
+/**
+ * The user interrupted a request with Ctrl+C
+ * Exits with 130 like other programs stopped by SIGINT
+ */
+export class CancelledError extends KnownError {
+	readonly code = "CANCELLED";
+	readonly exitCode = 130;
+}
+
+/**
+ * Get the exit code for an error, unknown errors exit with 1
+ */
+export const getExitCode = (error: Error) =>
+	error instanceof KnownError ? error.exitCode : 1;
+
+/**
+ * Format an error as a JSON document for scripts and editor integrations
+ *
+ * @param error The error to format
+ * @returns JSON string
+ */
+export const formatJsonError = (error: Error) =>
+	JSON.stringify(
+		{
+			error: {
+				code: error instanceof KnownError ? error.code : "UNKNOWN_ERROR",
+				message: error.message,
+				exitCode: getExitCode(error),
+			},
+		},
+		null,
+		2,
+	);
 
 /**
  * Handle CLI errors, displaying appropriate information to the user
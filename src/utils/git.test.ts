@@ -0,0 +1,508 @@
+import assert from "node:assert/strict";
+import fs from "node:fs/promises";
+import path from "node:path";
+import { afterEach, beforeEach, describe, it } from "node:test";
+import {
+	addTrailers,
+	commitFileGroups,
+	getCommitDiff,
+	getCommitMessage,
+	getCommitterIdentity,
+	getGitPath,
+	getHooksPath,
+	getMessageTrailers,
+	getPushedUpstream,
+	loadSavedCommitMessage,
+	getRangeCommits,
+	getRecentAuthors,
+	getStagedDiff,
+	getStagedFiles,
+	openInEditor,
+	preprocessDiff,
+	removeSavedCommitMessage,
+	resolveCommit,
+	rewordCommits,
+	saveCommitMessage,
+} from "./git.js";
+import { type TestRepo, createTestRepo } from "./testing.js";
+
+describe("git", () => {
+	const cwd = process.cwd();
+	const editor = process.env.GIT_EDITOR;
+	let repo: TestRepo;
+
+	beforeEach(async () => {
+		repo = await createTestRepo();
+		process.chdir(repo.path);
+	});
+
+	afterEach(async () => {
+		process.chdir(cwd);
+		process.env.GIT_EDITOR = editor;
+		await repo.remove();
+	});
+
+	it("resolves paths inside the git directory", async () => {
+		assert.equal(
+			await getGitPath("AICOMMITS_MSG"),
+			path.join(repo.path, ".git/AICOMMITS_MSG"),
+		);
+		assert.equal(await getHooksPath(), path.join(repo.path, ".git/hooks"));
+
+		await repo.git("config", "core.hooksPath", ".githooks");
+		assert.equal(await getHooksPath(), path.join(repo.path, ".githooks"));
+	});
+
+	it("opens files in the git editor, with its arguments", async () => {
+		await repo.writeFile("editor.sh", 'printf "%s\\n" "$@" > "$2"\n');
+		process.env.GIT_EDITOR = `sh ${path.join(repo.path, "editor.sh")} --wait`;
+		const file = path.join(repo.path, "message.txt");
+
+		await openInEditor(file);
+
+		assert.equal(await fs.readFile(file, "utf8"), `--wait\n${file}\n`);
+	});
+
+	it("reports editors that exit with an error", async () => {
+		process.env.GIT_EDITOR = "false";
+
+		await assert.rejects(openInEditor(path.join(repo.path, "message.txt")), {
+			message: "The editor (false) exited with an error",
+		});
+	});
+
+	it("lists recent authors and co-authors", async () => {
+		assert.deepEqual(await getRecentAuthors(10), []);
+
+		await repo.git(
+			"commit",
+			"--allow-empty",
+			"-m",
+			"Add index\n\nCo-authored-by: Jane Doe <jane@example.com>",
+		);
+		await repo.git("commit", "--allow-empty", "-m", "Fix index");
+
+		assert.deepEqual(await getRecentAuthors(10), [
+			"Test <test@example.com>",
+			"Jane Doe <jane@example.com>",
+		]);
+		assert.equal(await getCommitterIdentity(), "Test <test@example.com>");
+	});
+});
+
+describe("trailers", () => {
+	it("adds trailers in a paragraph after the body", async () => {
+		assert.equal(
+			await addTrailers("fix: handle errors\n\n#123 crashed on startup", [
+				"Refs: ENG-42",
+				"Signed-off-by: Test <test@example.com>",
+			]),
+			"fix: handle errors\n\n#123 crashed on startup\n\nRefs: ENG-42\nSigned-off-by: Test <test@example.com>",
+		);
+		assert.equal(await addTrailers("Handle errors\n", []), "Handle errors\n");
+	});
+
+	it("joins the existing trailers, skipping ones already present", async () => {
+		assert.equal(
+			await addTrailers("Handle errors\n\nRefs: ENG-42", [
+				"Refs: ENG-42",
+				"Signed-off-by: Test <test@example.com>",
+			]),
+			"Handle errors\n\nRefs: ENG-42\nSigned-off-by: Test <test@example.com>",
+		);
+	});
+
+	it("reads the trailers at the end of a message", async () => {
+		assert.deepEqual(
+			await getMessageTrailers("fix: handle errors\n\n#1 crashed\n\nRefs: ENG-42\n"),
+			["Refs: ENG-42"],
+		);
+		assert.deepEqual(await getMessageTrailers("fix: handle errors\n\n#1 crashed\n"), []);
+	});
+});
+
+describe("existing commits", () => {
+	const cwd = process.cwd();
+	let repo: TestRepo;
+	let commits: string[];
+
+	const commit = async (file: string, message: string) => {
+		await repo.writeFile(file, `${message}\n`);
+		await repo.git("add", file);
+		await repo.git("commit", "--quiet", "-m", message);
+		return resolveCommit("HEAD");
+	};
+
+	beforeEach(async () => {
+		repo = await createTestRepo();
+		process.chdir(repo.path);
+		commits = [
+			await commit("a.ts", "Add a"),
+			await commit("b.ts", "Add b"),
+			await commit("c.ts", "Add c"),
+		];
+	});
+
+	afterEach(async () => {
+		process.chdir(cwd);
+		await repo.remove();
+	});
+
+	it("reads the changes of a commit", async () => {
+		const changes = await getCommitDiff(commits[1]);
+
+		assert.deepEqual(changes?.files, ["b.ts"]);
+		assert.match(changes?.diff ?? "", /^\+Add b$/m);
+		await assert.rejects(resolveCommit("unknown"), {
+			message: "Unknown commit: unknown",
+		});
+	});
+
+	it("lists the commits of a range, oldest first", async () => {
+		assert.deepEqual(await getRangeCommits("HEAD~2..HEAD"), commits.slice(1));
+		assert.deepEqual(await getRangeCommits(commits[0]), commits.slice(1));
+		await assert.rejects(getRangeCommits("unknown.."), { message: /Invalid range/ });
+	});
+
+	it("detects commits pushed to the upstream", async () => {
+		assert.equal(await getPushedUpstream(commits[2]), undefined);
+
+		await repo.git("remote", "add", "origin", repo.path);
+		await repo.git("fetch", "--quiet", "origin");
+		await repo.git("branch", "--quiet", "--set-upstream-to=origin/main");
+		await commit("d.ts", "Add d");
+
+		assert.equal(await getPushedUpstream(commits[2]), "origin/main");
+		assert.equal(await getPushedUpstream(await resolveCommit("HEAD")), undefined);
+	});
+
+	it("rewords the last commit", async () => {
+		await rewordCommits(new Map([[commits[2], "Add the c module"]]));
+
+		assert.equal(await getCommitMessage("HEAD"), "Add the c module");
+		assert.equal(await getCommitMessage("HEAD~1"), "Add b");
+	});
+
+	it("rewords older commits, keeping local changes", async () => {
+		await repo.writeFile("a.ts", "Changed\n");
+
+		await rewordCommits(
+			new Map([
+				[commits[0], "Add the a module"],
+				[commits[1], "Add the b module"],
+			]),
+		);
+
+		assert.equal(
+			await repo.git("log", "--format=%s"),
+			"Add c\nAdd the b module\nAdd the a module",
+		);
+		assert.equal(await fs.readFile(path.join(repo.path, "a.ts"), "utf8"), "Changed\n");
+	});
+});
+
+describe("commitFileGroups", () => {
+	const cwd = process.cwd();
+	let repo: TestRepo;
+
+	beforeEach(async () => {
+		repo = await createTestRepo();
+		process.chdir(repo.path);
+		for (const file of ["a.ts", "b.ts", "c.ts"]) {
+			await repo.writeFile(file, "export {};\n");
+		}
+		await repo.git("add", ".");
+	});
+
+	afterEach(async () => {
+		process.chdir(cwd);
+		await repo.remove();
+	});
+
+	it("commits each group with the files as they were staged", async () => {
+		// Unstaged changes stay out of the commits
+		await repo.writeFile("a.ts", "export const unstaged = true;\n");
+
+		await commitFileGroups([
+			{ files: ["a.ts", "b.ts"], message: "Add a and b\n\n- Both export nothing" },
+			{ files: ["c.ts"], message: "Add c" },
+		]);
+
+		assert.equal(
+			await getCommitMessage("HEAD~1"),
+			"Add a and b\n\n- Both export nothing",
+		);
+		assert.equal(await getCommitMessage("HEAD"), "Add c");
+		assert.equal(
+			await repo.git("show", "--format=", "--name-only", "HEAD~1"),
+			"a.ts\nb.ts",
+		);
+		assert.equal(await repo.git("show", "--format=", "--name-only", "HEAD"), "c.ts");
+		assert.equal(await repo.git("show", "HEAD~1:a.ts"), "export {};");
+		assert.deepEqual(await getStagedFiles(), []);
+	});
+
+	it("restores the staged changes when a commit fails", async () => {
+		await repo.writeFile(".git/hooks/pre-commit", "#!/bin/sh\nexit 1\n");
+		await fs.chmod(path.join(repo.path, ".git/hooks/pre-commit"), 0o755);
+
+		await assert.rejects(
+			commitFileGroups([
+				{ files: ["a.ts"], message: "Add a" },
+				{ files: ["b.ts", "c.ts"], message: "Add b and c" },
+			]),
+			{ message: /^Failed to create the split commits/ },
+		);
+
+		await assert.rejects(repo.git("rev-parse", "--verify", "HEAD"));
+		assert.deepEqual(await getStagedFiles(), ["a.ts", "b.ts", "c.ts"]);
+	});
+});
+
+describe("saved commit message", () => {
+	const cwd = process.cwd();
+	const message =
+		"fix: handle empty config files\n\n#123 crashed on startup\nwhen the file was empty";
+	let repo: TestRepo;
+
+	beforeEach(async () => {
+		repo = await createTestRepo();
+		await repo.writeFile("config.ts", "export {};\n");
+		await repo.git("add", "config.ts");
+		process.chdir(repo.path);
+	});
+
+	afterEach(async () => {
+		process.chdir(cwd);
+		await repo.remove();
+	});
+
+	it("loads the message as it was saved, keeping `#` lines", async () => {
+		const file = await saveCommitMessage(message);
+
+		assert.equal(file, path.join(repo.path, ".git", "AICOMMITS_MSG"));
+		assert.deepEqual(await loadSavedCommitMessage(), { message, matchesIndex: true });
+	});
+
+	it("notices when the staged changes differ", async () => {
+		await saveCommitMessage(message);
+		await repo.writeFile("parser.ts", "export {};\n");
+		await repo.git("add", "parser.ts");
+
+		assert.deepEqual(await loadSavedCommitMessage(), { message, matchesIndex: false });
+	});
+
+	it("commits the saved message without the index marker", async () => {
+		const file = await saveCommitMessage(message);
+		await repo.git(
+			"commit",
+			"--quiet",
+			"-e",
+			"--cleanup=scissors",
+			"-F",
+			file,
+			"--trailer",
+			"Refs: ENG-42",
+		);
+
+		assert.equal(await getCommitMessage("HEAD"), `${message}\n\nRefs: ENG-42`);
+	});
+
+	it("forgets the message once removed", async () => {
+		await saveCommitMessage(message);
+		await removeSavedCommitMessage();
+
+		assert.equal(await loadSavedCommitMessage(), undefined);
+	});
+});
+
+describe("getStagedDiff", () => {
+	const cwd = process.cwd();
+	let repo: TestRepo;
+
+	beforeEach(async () => {
+		repo = await createTestRepo();
+		process.chdir(repo.path);
+	});
+
+	afterEach(async () => {
+		process.chdir(cwd);
+		await repo.remove();
+	});
+
+	it("leaves out excluded files and tells why", async () => {
+		await repo.writeFile(".aicommitsignore", "*.snap\n!yarn.lock\n");
+		for (const file of [
+			"src/cli.ts",
+			"src/cli test [1].ts",
+			"yarn.lock",
+			"pnpm-lock.yaml",
+			"test/cli.snap",
+			"docs/api.md",
+		]) {
+			await repo.writeFile(file, "content\n");
+		}
+		await repo.git("add", "--", ".", ":(exclude).aicommitsignore");
+
+		const staged = await getStagedDiff(["docs/"]);
+
+		assert.deepEqual(staged?.files, ["src/cli test [1].ts", "src/cli.ts", "yarn.lock"]);
+		assert.deepEqual(staged?.excluded, [
+			{ file: "docs/api.md", reason: "exclude: docs/" },
+			{ file: "pnpm-lock.yaml", reason: "default: pnpm-lock.yaml" },
+			{ file: "test/cli.snap", reason: ".aicommitsignore: *.snap" },
+		]);
+		assert.deepEqual(staged?.diff.match(/^diff --git .*$/gm), [
+			"diff --git a/src/cli test [1].ts b/src/cli test [1].ts",
+			"diff --git a/src/cli.ts b/src/cli.ts",
+			"diff --git a/yarn.lock b/yarn.lock",
+		]);
+	});
+
+	it("returns nothing when every file is excluded", async () => {
+		await repo.writeFile("package-lock.json", "{}\n");
+		await repo.git("add", "package-lock.json");
+
+		assert.equal(await getStagedDiff(), undefined);
+	});
+});
+
+describe("preprocessDiff", () => {
+	const cwd = process.cwd();
+	let repo: TestRepo;
+
+	/**
+	 * Stage the changes and preprocess the staged diff
+	 */
+	const getChanges = async (options = {}) => {
+		await repo.git("add", "--all");
+		const staged = await getStagedDiff([], options);
+		return new Map(staged?.fileChanges.map((change) => [change.path, change]));
+	};
+
+	beforeEach(async () => {
+		repo = await createTestRepo();
+		process.chdir(repo.path);
+		await repo.writeFile("src/old.ts", "export const name = 'old';\n");
+		await repo.writeFile("src/style.ts", "export const a = {b: 1};\n");
+		await repo.writeFile("bin/run", "#!/bin/sh\n");
+		await repo.git("add", "--all");
+		await repo.git("commit", "--quiet", "-m", "Initial commit");
+	});
+
+	afterEach(async () => {
+		process.chdir(cwd);
+		await repo.remove();
+	});
+
+	it("summarizes files whose content says little about the change", async () => {
+		await fs.rename(
+			path.join(repo.path, "src/old.ts"),
+			path.join(repo.path, "src/new.ts"),
+		);
+		await fs.chmod(path.join(repo.path, "bin/run"), 0o755);
+		await repo.writeFile("logo.png", "\0\x89PNG");
+		await repo.writeFile("public/app.min.js", "var a=1;\n");
+		await repo.writeFile("src/api.ts", "// @generated by protoc\nexport {};\n");
+		await repo.writeFile(
+			"data/users.csv",
+			Array.from({ length: 201 }, (_, index) => `user${index}`).join("\n"),
+		);
+		// Markers below the top of the file are part of the content
+		await repo.writeFile(
+			"src/feature.ts",
+			[
+				...Array.from({ length: 10 }, (_, index) => `export const flag${index} = true;`),
+				"// Do not edit the flags by hand, they are read by the deploy script",
+				"",
+			].join("\n"),
+		);
+		await repo.writeFile(
+			"src/style.ts",
+			"// Code generated by styles.ts, DO NOT EDIT.\nexport const a = {b: 1};\n",
+		);
+
+		const changes = await getChanges();
+
+		assert.deepEqual(
+			Array.from(changes.values(), ({ path, note, summary }) => ({
+				path,
+				note,
+				summary,
+			})),
+			[
+				{
+					path: "bin/run",
+					note: "mode change",
+					summary: "Mode changed from 100644 to 100755",
+				},
+				{
+					path: "data/users.csv",
+					note: "large data file",
+					summary: "Data file added, +201 -0 lines",
+				},
+				{ path: "logo.png", note: "binary", summary: "Binary file added" },
+				{
+					path: "public/app.min.js",
+					note: "generated",
+					summary: "Generated or minified file added, +1 -0 lines",
+				},
+				{
+					path: "src/api.ts",
+					note: "generated",
+					summary: "Generated or minified file added, +2 -0 lines",
+				},
+				{ path: "src/feature.ts", note: undefined, summary: undefined },
+				{
+					path: "src/new.ts",
+					note: "renamed",
+					summary: "Renamed from src/old.ts to src/new.ts without content changes",
+				},
+				{
+					path: "src/style.ts",
+					note: "generated",
+					summary: "Generated or minified file modified, +1 -0 lines",
+				},
+			],
+		);
+		assert.equal(changes.get("src/new.ts")?.oldPath, "src/old.ts");
+	});
+
+	it("replaces summarized files with their summary in the diff", () => {
+		const section = (file: string, content: string) =>
+			`diff --git a/${file} b/${file}\nnew file mode 100644\n--- /dev/null\n+++ b/${file}\n@@ -0,0 +1 @@\n+${content}\n`;
+
+		const { diff } = preprocessDiff(
+			`${section("app.min.js", "var a=1;")}${section("app.ts", "run();")}`,
+		);
+
+		assert.equal(
+			diff,
+			`diff --git a/app.min.js b/app.min.js\nGenerated or minified file added, +1 -0 lines\n${section(
+				"app.ts",
+				"run();",
+			)}`,
+		);
+	});
+
+	it("summarizes whitespace-only changes when enabled", async () => {
+		await repo.writeFile("src/style.ts", "export const a = { b: 1 };\n");
+
+		assert.equal((await getChanges()).get("src/style.ts")?.note, undefined);
+		assert.equal(
+			(await getChanges({ "ignore-whitespace": true })).get("src/style.ts")?.summary,
+			"Only whitespace changed",
+		);
+	});
+
+	it("uses the configured number of context lines", async () => {
+		await repo.writeFile("src/long.ts", "1\n2\n3\n4\n5\n");
+		await repo.git("add", "--all");
+		await repo.git("commit", "--quiet", "-m", "Add long");
+		await repo.writeFile("src/long.ts", "1\n2\nthree\n4\n5\n");
+
+		const { diff } = (await getChanges({ "context-lines": 0 })).get("src/long.ts") ?? {};
+
+		assert.match(diff ?? "", /@@ -3 \+3 @@\n-3\n\+three$/);
+	});
+});
@@ -1,11 +1,22 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
 import { execa } from "execa";
-import { KnownError } from "./error.js";
+import type { ValidConfig } from "./config.js";
+import { GitError } from "./error.js";
+import {
+	type ExcludedFile,
+	defaultExcludes,
+	getExcludingRule,
+	parseExcludeRules,
+	readIgnoreFile,
+} from "./ignore.js";
 
 /**
  * Verify that the current directory is a Git repository
  *
  * @returns The path to the root of the Git repository
- * @throws {KnownError} If the current directory is not a Git repository
+ * @throws {GitError} If the current directory is not a Git repository
  */
 export const assertGitRepo = async (): Promise<string> => {
 	try {
@@ -14,14 +25,14 @@ export const assertGitRepo = async (): Promise<string> => {
 		});
 
 		if (failed) {
-			throw new KnownError("The current directory must be a Git repository!");
+			throw new GitError("The current directory must be a Git repository!");
 		}
 
 		return stdout;
 	} catch (error) {
 		// Handle case where git is not installed
 		if (error instanceof Error && error.message.includes("command not found")) {
-			throw new KnownError("Git is not installed or not available in PATH");
+			throw new GitError("Git is not installed or not available in PATH");
 		}
 		throw error;
 	}
@@ -29,89 +40,739 @@ export const assertGitRepo = async (): Promise<string> => {
 
 /**
  * Format a path to be excluded from git diff
+ * Paths are matched literally and relative to the repository root
  *
  * @param path Path to exclude
  * @returns Formatted exclude path for git command
  */
-const excludeFromDiff = (path: string): string => `:(exclude)${path}`;
+const excludeFromDiff = (path: string): string => `:(top,exclude,literal)${path}`;
 
 /**
- * Default files to exclude from diff analysis
- * These files typically contain auto-generated content that's not useful for commit messages
+ * A changed file parsed from the diff
  */
-const filesToExclude = [
-	// Package manager lock files
-	"package-lock.json",
-	"pnpm-lock.yaml",
-	"yarn.lock",
-	"*.lock",
-	// Build outputs
-	"dist/**",
-	"build/**",
-].map(excludeFromDiff);
+export type FileChange = {
+	path: string;
+	// Previous path of renamed files
+	oldPath?: string;
+	status: "added" | "deleted" | "modified" | "renamed";
+	additions: number;
+	deletions: number;
+	// Why the content isn't sent verbatim, e.g. `binary`, shown next to the file
+	note?: string;
+	// One-line description sent instead of the content
+	summary?: string;
+	// The file's section of the diff
+	diff: string;
+};
+
+/**
+ * Changed files and their diff, without the excluded files
+ */
+export type DiffChanges = {
+	files: string[];
+	// The diff sent to the model, with summaries for files not worth sending verbatim
+	diff: string;
+	fileChanges: FileChange[];
+	// Changed files left out of the diff, with the reason
+	excluded: ExcludedFile[];
+};
+
+/**
+ * Settings for how diffs are read and preprocessed
+ */
+export type DiffOptions = Partial<
+	Pick<ValidConfig, "context-lines" | "ignore-whitespace">
+>;
+
+// Files produced by tools, their content says little about the change
+const generatedPathPattern =
+	/(\.min\.(js|css)|\.map|\.pb\.go|_pb2(_grpc)?\.py|\.generated\.\w+|\.g\.dart)$/;
+// Tools mark the files they write in a comment at the top
+const generatedMarkerPattern = /@generated|do not edit|auto-?generated/i;
+const fileHeaderLines = 10;
+
+/**
+ * Get the first lines of a file, if the diff shows them
+ * Deleted files have no new content, their old content is used instead.
+ *
+ * @param lines Lines of the file's section of the diff
+ * @param deleted Whether the file was deleted
+ */
+const getFileHeader = (lines: string[], deleted: boolean) => {
+	const start = lines.findIndex((line) => {
+		const match = line.match(/^@@ -(\d+)(?:,\d+)? \+(\d+)(?:,\d+)? @@/);
+		return match?.[deleted ? 1 : 2] === "1";
+	});
+	if (start === -1) {
+		return [];
+	}
+
+	const hunk = lines.slice(start + 1);
+	const end = hunk.findIndex((line) => line.startsWith("@@ "));
+	return hunk
+		.slice(0, end === -1 ? undefined : end)
+		.filter((line) => line.startsWith(" ") || line.startsWith(deleted ? "-" : "+"))
+		.slice(0, fileHeaderLines);
+};
+
+// Lines longer than this only appear in minified or encoded content
+const minifiedLineLength = 1000;
+
+// Data files with more changed lines than this are collapsed
+const dataPathPattern = /\.(csv|tsv|json|jsonl|ndjson|xml|geojson|sql)$/;
+const largeDataLines = 200;
+
+/**
+ * Parse one file's section of a diff
+ *
+ * @param section The section, starting with `diff --git`
+ * @param ignoreWhitespace Summarize files whose changes are only whitespace
+ */
+const parseFileDiff = (section: string, ignoreWhitespace: boolean): FileChange => {
+	const [header] = section.split(/^(?=@@ )/m);
+	const lines = section.split("\n");
+	// Git ends `---`/`+++` lines of paths with spaces with a tab
+	const headerLine = (prefix: string) =>
+		lines
+			.find((line) => line.startsWith(prefix))
+			?.slice(prefix.length)
+			.replace(/\t$/, "");
+
+	// Both paths are the same unless the file was renamed: `diff --git a/<path> b/<path>`
+	const paths = lines[0].slice("diff --git a/".length);
+	const renamedFrom = headerLine("rename from ");
+	const path =
+		headerLine("rename to ") ??
+		headerLine("+++ b/") ??
+		headerLine("--- a/") ??
+		paths.slice(0, (paths.length - 3) / 2);
+
+	const added = lines
+		.filter((line) => /^\+(?!\+\+ )/.test(line))
+		.map((line) => line.slice(1));
+	const removed = lines
+		.filter((line) => /^-(?!-- )/.test(line))
+		.map((line) => line.slice(1));
+
+	const change: FileChange = {
+		path,
+		oldPath: renamedFrom,
+		status: renamedFrom
+			? "renamed"
+			: header.includes("\nnew file mode")
+			  ? "added"
+			  : header.includes("\ndeleted file mode")
+				  ? "deleted"
+				  : "modified",
+		additions: added.length,
+		deletions: removed.length,
+		diff: section,
+	};
+	const counts = `+${change.additions} -${change.deletions} lines`;
+	const hasHunks = section.includes("\n@@ ");
+
+	if (/^Binary files .* differ$/m.test(header) || header.includes("\nGIT binary patch")) {
+		change.note = "binary";
+		change.summary = `Binary file ${change.status}`;
+	} else if (renamedFrom && !hasHunks) {
+		change.note = "renamed";
+		change.summary = `Renamed from ${renamedFrom} to ${path} without content changes`;
+	} else if (!hasHunks && headerLine("new mode ")) {
+		change.note = "mode change";
+		change.summary = `Mode changed from ${headerLine("old mode ")} to ${headerLine(
+			"new mode ",
+		)}`;
+	} else if (
+		generatedPathPattern.test(path) ||
+		getFileHeader(lines, change.status === "deleted").some((line) =>
+			generatedMarkerPattern.test(line),
+		) ||
+		[...added, ...removed].some((line) => line.length > minifiedLineLength)
+	) {
+		change.note = "generated";
+		change.summary = `Generated or minified file ${change.status}, ${counts}`;
+	} else if (
+		dataPathPattern.test(path) &&
+		added.length + removed.length > largeDataLines
+	) {
+		change.note = "large data file";
+		change.summary = `Data file ${change.status}, ${counts}`;
+	} else if (
+		ignoreWhitespace &&
+		change.status === "modified" &&
+		added.join("").replace(/\s/g, "") === removed.join("").replace(/\s/g, "")
+	) {
+		change.note = "whitespace only";
+		change.summary = "Only whitespace changed";
+	}
+
+	return change;
+};
+
+/**
+ * Parse a diff into per-file records, collapsing content that isn't worth sending
+ *
+ * @param diff Output of `git diff`
+ * @param ignoreWhitespace Summarize files whose changes are only whitespace
+ * @returns The files, and the diff with collapsed files replaced by one-line summaries
+ */
+export const preprocessDiff = (diff: string, ignoreWhitespace = false) => {
+	const fileChanges = diff
+		.split(/^(?=diff --git )/m)
+		.filter((section) => section.startsWith("diff --git "))
+		.map((section) => parseFileDiff(section, ignoreWhitespace));
+
+	// Collapsed files keep their `diff --git` line so they can still be told apart
+	const rendered = fileChanges.map(({ diff: section, summary }) =>
+		summary ? `${section.split("\n")[0]}\n${summary}\n` : section,
+	);
+
+	return { fileChanges, diff: rendered.join("") };
+};
+
+/**
+ * Get the changed files and diff for a `git diff`/`git show` command
+ * Files are excluded by the defaults, then `.aicommitsignore`, then the given patterns,
+ * later rules override earlier ones and `!` patterns re-include files
+ *
+ * @param diffArgs Arguments selecting the changes to diff
+ * @param excludeFiles Optional array of patterns to exclude from the diff
+ * @returns Object containing the list of changed files and the diff content, or undefined if nothing changed
+ */
+const getDiff = async (
+	diffArgs: string[],
+	excludeFiles: string[] = [],
+	options: DiffOptions = {},
+): Promise<DiffChanges | undefined> => {
+	const { stdout: repoRoot } = await execa("git", ["rev-parse", "--show-toplevel"]);
+	const rules = [
+		...parseExcludeRules(defaultExcludes, "default"),
+		...(await readIgnoreFile(repoRoot)),
+		...parseExcludeRules(excludeFiles, "exclude"),
+	];
+
+	// Get list of changed files, NUL-separated so unusual names aren't quoted
+	const { stdout: changedFiles } = await execa("git", [...diffArgs, "--name-only", "-z"]);
+
+	const files: string[] = [];
+	const excluded: ExcludedFile[] = [];
+	for (const file of changedFiles.split("\0").filter(Boolean)) {
+		const rule = getExcludingRule(file, rules);
+		if (rule) {
+			excluded.push({ file, reason: `${rule.source}: ${rule.pattern}` });
+		} else {
+			files.push(file);
+		}
+	}
+
+	// If no files changed, return undefined
+	if (files.length === 0) {
+		return undefined;
+	}
+
+	// Get the actual diff content
+	const { stdout } = await execa("git", [
+		...diffArgs,
+		`--unified=${options["context-lines"] ?? 3}`,
+		"--",
+		...excluded.map(({ file }) => excludeFromDiff(file)),
+	]);
+	const { fileChanges, diff } = preprocessDiff(stdout, options["ignore-whitespace"]);
+
+	return {
+		files: fileChanges.map(({ path }) => path),
+		diff,
+		fileChanges,
+		excluded,
+	};
+};
 
 /**
  * Get the staged diff from git
  *
  * @param excludeFiles Optional array of files to exclude from the diff
+ * @param options Context lines and whitespace handling
  * @returns Object containing the list of staged files and the diff content, or undefined if no files are staged
  */
 export const getStagedDiff = async (
 	excludeFiles?: string[],
-): Promise<{ files: string[]; diff: string } | undefined> => {
+	options?: DiffOptions,
+): Promise<DiffChanges | undefined> => {
 	try {
-		// Common diff options
-		const diffCached = ["diff", "--cached", "--diff-algorithm=minimal"];
-
-		// Additional exclude patterns from user input
-		const userExcludes = excludeFiles ? excludeFiles.map(excludeFromDiff) : [];
-
-		// Get list of staged files
-		const { stdout: files } = await execa("git", [
-			...diffCached,
-			"--name-only",
-			...filesToExclude,
-			...userExcludes,
-		]);
+		return await getDiff(
+			["diff", "--cached", "--diff-algorithm=minimal"],
+			excludeFiles,
+			options,
+		);
+	} catch (error) {
+		if (error instanceof Error) {
+			throw new GitError(`Failed to get staged changes: ${error.message}`);
+		}
+		throw error;
+	}
+};
+
+/**
+ * Get the diff a commit introduced
+ *
+ * @param commit The commit hash
+ * @param excludeFiles Optional array of files to exclude from the diff
+ * @param options Context lines and whitespace handling
+ * @returns Object containing the list of changed files and the diff content, or undefined if the commit is empty
+ */
+export const getCommitDiff = async (
+	commit: string,
+	excludeFiles?: string[],
+	options?: DiffOptions,
+): Promise<DiffChanges | undefined> => {
+	try {
+		// Merge commits are diffed against their first parent
+		return await getDiff(
+			[
+				"show",
+				"--format=",
+				"--diff-merges=first-parent",
+				"--diff-algorithm=minimal",
+				commit,
+			],
+			excludeFiles,
+			options,
+		);
+	} catch (error) {
+		if (error instanceof Error) {
+			throw new GitError(`Failed to get the changes of ${commit}: ${error.message}`);
+		}
+		throw error;
+	}
+};
+
+/**
+ * Resolve a revision to a commit hash
+ *
+ * @param rev Any revision git understands, e.g. `HEAD~2`
+ * @returns The full commit hash
+ * @throws {GitError} If the revision doesn't point to a commit
+ */
+export const resolveCommit = async (rev: string): Promise<string> => {
+	const { stdout, failed } = await execa(
+		"git",
+		["rev-parse", "--verify", "--quiet", `${rev}^{commit}`],
+		{ reject: false },
+	);
+
+	if (failed || !stdout) {
+		throw new GitError(`Unknown commit: ${rev}`);
+	}
+
+	return stdout.trim();
+};
+
+/**
+ * Get the full message of a commit
+ *
+ * @param commit The commit hash
+ * @returns The commit message
+ */
+export const getCommitMessage = async (commit: string): Promise<string> => {
+	const { stdout } = await execa("git", ["log", "-1", "--format=%B", commit]);
+	return stdout.trim();
+};
+
+/**
+ * List the commits of a range, oldest first
+ * A single revision is treated as `<rev>..HEAD`
+ *
+ * @param range Revision range, e.g. `HEAD~3..HEAD` or `origin/main..`
+ * @returns Commit hashes
+ * @throws {GitError} If the range is invalid
+ */
+export const getRangeCommits = async (range: string): Promise<string[]> => {
+	const { stdout, failed, stderr } = await execa(
+		"git",
+		["rev-list", "--reverse", range.includes("..") ? range : `${range}..HEAD`],
+		{ reject: false },
+	);
+
+	if (failed) {
+		throw new GitError(`Invalid range ${range}: ${stderr}`);
+	}
+
+	return stdout.split("\n").filter(Boolean);
+};
+
+/**
+ * Check if a commit is already part of the upstream of the current branch
+ *
+ * @param commit The commit hash
+ * @returns The upstream name if the commit was pushed to it, undefined otherwise
+ */
+export const getPushedUpstream = async (commit: string): Promise<string | undefined> => {
+	const { stdout: upstream, failed } = await execa(
+		"git",
+		["rev-parse", "--abbrev-ref", "--symbolic-full-name", "@{upstream}"],
+		{ reject: false },
+	);
+
+	// Branches without an upstream have nothing pushed
+	if (failed || !upstream) {
+		return undefined;
+	}
+
+	const { exitCode } = await execa(
+		"git",
+		["merge-base", "--is-ancestor", commit, upstream],
+		{ reject: false },
+	);
+
+	return exitCode === 0 ? upstream : undefined;
+};
+
+/**
+ * Replace the messages of commits on the current branch
+ * The last commit is amended, older commits are rewritten with a non-interactive
+ * rebase that amends each commit right after picking it
+ *
+ * @param messages New messages keyed by commit hash, oldest commit first
+ * @throws {GitError} If a commit isn't on the current branch or the rebase fails
+ */
+export const rewordCommits = async (messages: Map<string, string>): Promise<void> => {
+	const head = await resolveCommit("HEAD");
+	const tempDir = await fs.mkdtemp(path.join(os.tmpdir(), "aicommits-"));
+
+	// Write the messages to files, so they don't need any escaping
+	const messageFiles = new Map<string, string>();
+	for (const [index, [commit, message]] of Array.from(messages).entries()) {
+		const file = path.join(tempDir, `message-${index}`);
+		await fs.writeFile(file, `${message}\n`, "utf8");
+		messageFiles.set(commit, file);
+	}
 
-		// If no files are staged, return undefined
-		if (!files.trim()) {
-			return undefined;
+	// Skip hooks, the messages were already reviewed
+	const amend = (file: string) => [
+		"commit",
+		"--amend",
+		"--only",
+		"--allow-empty",
+		"--no-verify",
+		"--file",
+		file,
+	];
+
+	try {
+		if (messages.size === 1 && messageFiles.has(head)) {
+			await execa("git", amend(messageFiles.get(head) as string));
+			return;
 		}
 
-		// Get the actual diff content
-		const { stdout: diff } = await execa("git", [
-			...diffCached,
-			...filesToExclude,
-			...userExcludes,
+		// Every commit after the oldest reworded one is rewritten
+		const [oldest] = messages.keys();
+		const { stdout: parents } = await execa("git", [
+			"rev-list",
+			"--parents",
+			"-n1",
+			oldest,
 		]);
+		const isRoot = parents.split(" ").length === 1;
+		const range = isRoot ? ["HEAD"] : [`${oldest}^..HEAD`];
+
+		const { stdout: merges } = await execa("git", ["rev-list", "--merges", ...range]);
+		if (merges) {
+			throw new GitError("Commits can't be reworded across merge commits");
+		}
+
+		const rewritten = (
+			await execa("git", ["rev-list", "--reverse", ...range])
+		).stdout.split("\n");
+		if (Array.from(messages.keys()).some((commit) => !rewritten.includes(commit))) {
+			throw new GitError("Only commits on the current branch can be reworded");
+		}
+
+		const todo = rewritten.flatMap((commit) => {
+			const file = messageFiles.get(commit);
+			return file
+				? [
+						`pick ${commit}`,
+						`exec git ${amend(file)
+							.map((arg) => `'${arg}'`)
+							.join(" ")}`,
+				  ]
+				: [`pick ${commit}`];
+		});
+		const todoFile = path.join(tempDir, "todo");
+		await fs.writeFile(todoFile, `${todo.join("\n")}\n`, "utf8");
+
+		const { failed, stderr } = await execa(
+			"git",
+			["rebase", "--interactive", "--autostash", isRoot ? "--root" : `${oldest}^`],
+			{
+				// Replace the todo list git generates with ours
+				env: { GIT_SEQUENCE_EDITOR: `cp '${todoFile}'` },
+				reject: false,
+			},
+		);
+
+		if (failed) {
+			await execa("git", ["rebase", "--abort"], { reject: false });
+			throw new GitError(`Failed to reword commits: ${stderr}`);
+		}
+	} finally {
+		await fs.rm(tempDir, { recursive: true, force: true });
+	}
+};
 
-		return {
-			files: files.split("\n").filter(Boolean), // Filter out empty strings
-			diff,
-		};
+/**
+ * Get the diff of the current branch since it forked from another commit
+ *
+ * @param mergeBase The commit the branch forked from
+ * @param excludeFiles Optional array of files to exclude from the diff
+ * @param options Context lines and whitespace handling
+ * @returns Object containing the list of changed files and the diff content, or undefined if nothing changed
+ */
+export const getBranchDiff = async (
+	mergeBase: string,
+	excludeFiles?: string[],
+	options?: DiffOptions,
+): Promise<DiffChanges | undefined> => {
+	try {
+		return await getDiff(
+			["diff", "--diff-algorithm=minimal", mergeBase, "HEAD"],
+			excludeFiles,
+			options,
+		);
 	} catch (error) {
 		if (error instanceof Error) {
-			throw new KnownError(`Failed to get staged changes: ${error.message}`);
+			throw new GitError(`Failed to get the branch changes: ${error.message}`);
 		}
 		throw error;
 	}
 };
 
 /**
- * Generate a human-readable message about the number of detected files
+ * Guess the branch pull requests are opened against: the remote's default
+ * branch, or a local `main`/`master`
+ *
+ * @returns The branch name
+ * @throws {GitError} If no default branch can be found
+ */
+export const getDefaultBranch = async (): Promise<string> => {
+	const { stdout: remoteHead, failed } = await execa(
+		"git",
+		["symbolic-ref", "--quiet", "--short", "refs/remotes/origin/HEAD"],
+		{ reject: false },
+	);
+	if (!failed && remoteHead) {
+		return remoteHead.trim();
+	}
+
+	for (const branch of ["main", "master"]) {
+		const { failed: missing } = await execa(
+			"git",
+			["rev-parse", "--verify", "--quiet", branch],
+			{ reject: false },
+		);
+		if (!missing) {
+			return branch;
+		}
+	}
+
+	throw new GitError(
+		"Could not detect the base branch. Set it via `--base` or `aicommits config set pr-base=<branch>`",
+	);
+};
+
+/**
+ * Get the commit the current branch forked from
+ *
+ * @param base The branch to compare against
+ * @returns The merge base commit hash
+ * @throws {GitError} If the branches have no common history
+ */
+export const getMergeBase = async (base: string): Promise<string> => {
+	const { stdout, failed } = await execa("git", ["merge-base", base, "HEAD"], {
+		reject: false,
+	});
+
+	if (failed || !stdout) {
+		throw new GitError(`Could not find a common ancestor of ${base} and HEAD`);
+	}
+
+	return stdout.trim();
+};
+
+/**
+ * Get the commits of a range with their messages, oldest first
+ * Merge commits are skipped. A single revision is treated as `<rev>..HEAD`
+ *
+ * @param range Revision range, e.g. `v1.0.0..HEAD`
+ * @returns Commit hashes and messages
+ * @throws {GitError} If the range is invalid
+ */
+export const getCommitLog = async (
+	range: string,
+): Promise<{ hash: string; message: string }[]> => {
+	const { stdout, failed, stderr } = await execa(
+		"git",
+		[
+			"log",
+			"--reverse",
+			"--no-merges",
+			"--format=%H%n%B%x00",
+			range.includes("..") ? range : `${range}..HEAD`,
+		],
+		{ reject: false },
+	);
+
+	if (failed) {
+		throw new GitError(`Invalid range ${range}: ${stderr}`);
+	}
+
+	return stdout
+		.split("\0")
+		.map((entry) => entry.trim())
+		.filter(Boolean)
+		.map((entry) => {
+			const [hash, ...message] = entry.split("\n");
+			return { hash, message: message.join("\n").trim() };
+		});
+};
+
+/**
+ * Get the messages of the commits since a commit, oldest first
+ *
+ * @param since The commit to start after
+ * @returns Full commit messages
+ */
+export const getCommitMessagesSince = async (since: string): Promise<string[]> => {
+	const { stdout } = await execa("git", [
+		"log",
+		"--reverse",
+		"--format=%B%x00",
+		`${since}..HEAD`,
+	]);
+	return stdout
+		.split("\0")
+		.map((message) => message.trim())
+		.filter(Boolean);
+};
+
+/**
+ * Get all staged files, including the ones excluded from the diff
+ * Renames are listed as a deletion and an addition
+ *
+ * @returns Staged file paths
+ */
+export const getStagedFiles = async (): Promise<string[]> => {
+	const { stdout } = await execa("git", [
+		"diff",
+		"--cached",
+		"--name-only",
+		"--no-renames",
+	]);
+	return stdout.split("\n").filter(Boolean);
+};
+
+/**
+ * Commit the staged files in groups, one commit per group in order
+ * Each group is staged from a snapshot of the index. If a commit fails,
+ * the commits created so far are undone and the original index is restored.
+ *
+ * @param groups Files and message of each commit
+ * @param commitArgs Extra arguments for `git commit`, e.g. `--no-verify`
+ * @throws {GitError} If a commit fails
+ */
+export const commitFileGroups = async (
+	groups: { files: string[]; message: string }[],
+	commitArgs: string[] = [],
+): Promise<void> => {
+	const { stdout: originalIndex } = await execa("git", ["write-tree"]);
+	const { stdout: originalHead, failed: unborn } = await execa(
+		"git",
+		["rev-parse", "--verify", "--quiet", "HEAD"],
+		{ reject: false },
+	);
+
+	try {
+		for (const [index, { files, message }] of groups.entries()) {
+			// Start from the last commit, then stage this group's files as they were staged
+			await execa("git", [
+				"read-tree",
+				...(index === 0 && unborn ? ["--empty"] : ["HEAD"]),
+			]);
+			await execa("git", [
+				"restore",
+				"--staged",
+				`--source=${originalIndex}`,
+				"--",
+				...files,
+			]);
+
+			// Pass the body as a separate paragraph so git keeps it apart from the subject
+			const [subject, ...bodyLines] = message.split("\n");
+			const body = bodyLines.join("\n").trim();
+			await execa("git", [
+				"commit",
+				"-m",
+				subject,
+				...(body ? ["-m", body] : []),
+				...commitArgs,
+			]);
+		}
+	} catch (error) {
+		if (unborn) {
+			await execa("git", ["update-ref", "-d", "HEAD"], { reject: false });
+		} else {
+			await execa("git", ["reset", "--soft", originalHead], { reject: false });
+		}
+		await execa("git", ["read-tree", originalIndex], { reject: false });
+
+		throw new GitError(
+			`Failed to create the split commits, the original staged changes were restored: ${
+				(error as Error).message
+			}`,
+		);
+	}
+};
+
+/**
+ * Generate a human-readable message listing the detected and excluded files
  *
- * @param files Array of file paths
+ * @param files Changed files, as parsed from the diff
+ * @param excluded Files left out of the diff, with the reason
+ * @param kind How the files changed, e.g. `staged`
  * @returns Formatted message string
  */
-export const getDetectedMessage = (files: string[]): string =>
-	`Detected ${files.length.toLocaleString()} staged file${files.length > 1 ? "s" : ""}`;
+export const getDetectedMessage = (
+	files: FileChange[],
+	excluded: ExcludedFile[] = [],
+	kind = "staged",
+): string => {
+	const lines = [
+		`Detected ${files.length.toLocaleString()} ${kind} file${
+			files.length > 1 ? "s" : ""
+		}:`,
+		...files.map(
+			({ path, oldPath, note }) =>
+				`     ${oldPath ? `${oldPath} → ${path}` : path}${note ? ` (${note})` : ""}`,
+		),
+	];
+
+	if (excluded.length > 0) {
+		lines.push(
+			`   Excluded ${excluded.length.toLocaleString()} file${
+				excluded.length > 1 ? "s" : ""
+			}:`,
+			...excluded.map(({ file, reason }) => `     ${file} (${reason})`),
+		);
+	}
+
+	return lines.join("\n");
+};
 
 /**
  * Get the current branch name
  *
  * @returns The name of the current git branch
- * @throws {KnownError} If unable to get the branch name
+ * @throws {GitError} If unable to get the branch name
  */
 export const getCurrentBranch = async (): Promise<string> => {
 	try {
@@ -119,8 +780,267 @@ export const getCurrentBranch = async (): Promise<string> => {
 		return stdout.trim();
 	} catch (error) {
 		if (error instanceof Error) {
-			throw new KnownError(`Failed to get current branch: ${error.message}`);
+			throw new GitError(`Failed to get current branch: ${error.message}`);
+		}
+		throw error;
+	}
+};
+
+/**
+ * Get the subject lines of the most recent commits, newest first
+ * Merge commits are skipped, they don't reflect how people write messages
+ *
+ * @param count Maximum number of subjects
+ * @param paths Only include commits touching these paths
+ * @returns Commit subjects, empty if the repository has no commits yet
+ */
+export const getRecentCommitSubjects = async (
+	count: number,
+	paths: string[] = [],
+): Promise<string[]> => {
+	const { stdout, failed } = await execa(
+		"git",
+		["log", `--max-count=${count}`, "--no-merges", "--format=%s", "--", ...paths],
+		{ reject: false },
+	);
+
+	// `git log` fails in a repository without commits
+	if (failed) {
+		return [];
+	}
+
+	return stdout.split("\n").filter(Boolean);
+};
+
+/**
+ * Get the people who authored or co-authored the most recent commits
+ *
+ * @param count Number of commits to look at
+ * @returns Identities like `Jane Doe <jane@example.com>`, most recent first
+ */
+export const getRecentAuthors = async (count: number): Promise<string[]> => {
+	const { stdout, failed } = await execa(
+		"git",
+		[
+			"log",
+			`--max-count=${count}`,
+			"--format=%aN <%aE>%n%(trailers:key=Co-authored-by,valueonly)",
+		],
+		{ reject: false },
+	);
+
+	// `git log` fails in a repository without commits
+	if (failed) {
+		return [];
+	}
+
+	return [
+		...new Set(
+			stdout
+				.split("\n")
+				.map((line) => line.trim())
+				.filter(Boolean),
+		),
+	];
+};
+
+/**
+ * Get the identity git records as committer, used for `Signed-off-by`
+ *
+ * @returns Identity like `Jane Doe <jane@example.com>`
+ * @throws {GitError} If no name or email is configured
+ */
+export const getCommitterIdentity = async (): Promise<string> => {
+	try {
+		const { stdout } = await execa("git", ["var", "GIT_COMMITTER_IDENT"]);
+		// Drop the timestamp and timezone
+		return stdout.replace(/\s+\d+\s+[+-]\d{4}$/, "").trim();
+	} catch (error) {
+		if (error instanceof Error) {
+			throw new GitError(
+				`Failed to get your git identity, set user.name and user.email: ${error.message}`,
+			);
+		}
+		throw error;
+	}
+};
+
+// Comment characters tried in order, like `core.commentChar=auto` does when editing
+const commentChars = "#;@!$%^&|:";
+
+/**
+ * Pick a comment character no line of the message starts with, so `git interpret-trailers`
+ * doesn't take body lines like `#123 fixes the crash` for comments and add trailers above them
+ */
+const getCommentCharConfig = (message: string) => {
+	const lines = message.split("\n");
+	const commentChar =
+		[...commentChars].find((char) => !lines.some((line) => line.startsWith(char))) ?? "#";
+	return ["-c", `core.commentChar=${commentChar}`];
+};
+
+/**
+ * Add trailers to a commit message with `git interpret-trailers`,
+ * which joins an existing trailer block and skips trailers already present
+ *
+ * @param message The commit message
+ * @param trailers Trailers like `Signed-off-by: Jane Doe <jane@example.com>`
+ * @returns The message with the trailers
+ */
+export const addTrailers = async (
+	message: string,
+	trailers: string[],
+): Promise<string> => {
+	if (trailers.length === 0) {
+		return message;
+	}
+
+	const { stdout } = await execa(
+		"git",
+		[
+			...getCommentCharConfig(message),
+			"interpret-trailers",
+			"--if-exists",
+			"addIfDifferent",
+			...trailers.flatMap((trailer) => ["--trailer", trailer]),
+		],
+		// Without the final newline the trailers are appended to the last line
+		{ input: `${message.trimEnd()}\n` },
+	);
+	return stdout.trim();
+};
+
+/**
+ * Get the trailers at the end of a commit message
+ *
+ * @param message The commit message
+ * @returns Trailers like `Signed-off-by: Jane Doe <jane@example.com>`
+ */
+export const getMessageTrailers = async (message: string): Promise<string[]> => {
+	const { stdout } = await execa(
+		"git",
+		[...getCommentCharConfig(message), "interpret-trailers", "--parse"],
+		{ input: message },
+	);
+	return stdout.split("\n").filter(Boolean);
+};
+
+// File the selected message is saved to until the commit succeeds
+const savedMessageFile = "AICOMMITS_MSG";
+
+// Comment line recording the staged changes the saved message was written for
+const savedIndexMarker = "# aicommits-index: ";
+
+// Editing with `--cleanup=scissors` drops this line and all below it, but keeps `#` lines above
+const scissorsLine = "# ------------------------ >8 ------------------------";
+
+/**
+ * Get the id of the tree the index would be committed as
+ */
+const getIndexTree = async () => {
+	const { stdout, failed } = await execa("git", ["write-tree"], { reject: false });
+	return failed ? "" : stdout.trim();
+};
+
+/**
+ * Save a commit message to `.git/AICOMMITS_MSG`, so it can be recovered if the commit fails
+ * The marker is below a scissors line, so `git commit -e --cleanup=scissors -F` ignores it
+ *
+ * @param message The commit message, without trailers
+ * @returns Path to the saved message
+ */
+export const saveCommitMessage = async (message: string): Promise<string> => {
+	const file = await getGitPath(savedMessageFile);
+	await fs.writeFile(
+		file,
+		`${message}\n\n${scissorsLine}\n${savedIndexMarker}${await getIndexTree()}\n`,
+		"utf8",
+	);
+	return file;
+};
+
+/**
+ * Load the message saved by a commit that failed
+ *
+ * @returns The message and whether the staged changes are still the same, if any
+ */
+export const loadSavedCommitMessage = async (): Promise<
+	{ message: string; matchesIndex: boolean } | undefined
+> => {
+	const file = await getGitPath(savedMessageFile);
+	const content = await fs.readFile(file, "utf8").catch(() => "");
+	const lines = content.split("\n");
+
+	// Body lines may start with `#` too, e.g. `#123 fixes the crash`
+	const message = lines
+		.filter((line) => line !== scissorsLine && !line.startsWith(savedIndexMarker))
+		.join("\n")
+		.trim();
+	if (!message) {
+		return undefined;
+	}
+
+	const tree = lines
+		.find((line) => line.startsWith(savedIndexMarker))
+		?.slice(savedIndexMarker.length);
+	return { message, matchesIndex: tree === (await getIndexTree()) };
+};
+
+/**
+ * Remove the saved message once the commit succeeded or a new message replaces it
+ */
+export const removeSavedCommitMessage = async (): Promise<void> => {
+	await fs.rm(await getGitPath(savedMessageFile), { force: true });
+};
+
+/**
+ * Resolve a path inside the git directory (e.g. `.git/hooks`)
+ * Respects `core.hooksPath` and worktrees
+ *
+ * @param name Path relative to the git directory
+ * @returns Absolute path
+ * @throws {GitError} If unable to resolve the path
+ */
+export const getGitPath = async (name: string): Promise<string> => {
+	try {
+		const { stdout } = await execa("git", [
+			"rev-parse",
+			"--path-format=absolute",
+			"--git-path",
+			name,
+		]);
+		return stdout.trim();
+	} catch (error) {
+		if (error instanceof Error) {
+			throw new GitError(`Failed to resolve git path ${name}: ${error.message}`);
 		}
 		throw error;
 	}
 };
+
+/**
+ * Get the path to the hooks directory of the current repository
+ *
+ * @returns Absolute path to the hooks directory
+ */
+export const getHooksPath = (): Promise<string> => getGitPath("hooks");
+
+/**
+ * Open a file in the user's git editor and wait for it to close
+ *
+ * @param file Path to the file to edit
+ * @throws {GitError} If the editor exits with an error
+ */
+export const openInEditor = async (file: string): Promise<void> => {
+	const { stdout: editor } = await execa("git", ["var", "GIT_EDITOR"]);
+
+	// Run the editor through the shell like git does, it may include arguments
+	const { failed } = await execa("sh", ["-c", `${editor} "$@"`, editor, file], {
+		stdio: "inherit",
+		reject: false,
+	});
+
+	if (failed) {
+		throw new GitError(`The editor (${editor}) exited with an error`);
+	}
+};
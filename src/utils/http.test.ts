@@ -0,0 +1,125 @@
+import assert from "node:assert/strict";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import tls from "node:tls";
+import { after, before, describe, it } from "node:test";
+import { CancelledError, ConfigError } from "./error.js";
+import {
+	HttpError,
+	checkConnection,
+	getCertificateAuthorities,
+	getNetworkError,
+	getNoProxyMatch,
+	resolveProxy,
+} from "./http.js";
+import { startServer } from "./testing.js";
+
+const certificate = "-----BEGIN CERTIFICATE-----\nMIIB\n-----END CERTIFICATE-----";
+
+describe("resolveProxy", () => {
+	const proxy = "http://proxy.example.com:8080";
+
+	it("matches hosts, subdomains and ports of NO_PROXY entries", () => {
+		const noProxy = ["example.com", ".corp", "api.test:8443"];
+		const match = (url: string) => getNoProxyMatch(new URL(url), noProxy);
+
+		assert.equal(match("https://example.com/v1"), "example.com");
+		assert.equal(match("https://API.example.com/v1"), "example.com");
+		assert.equal(match("https://llm.corp/v1"), ".corp");
+		assert.equal(match("https://api.test:8443/v1"), "api.test:8443");
+		assert.equal(match("https://api.test/v1"), undefined);
+		assert.equal(match("https://notexample.com/v1"), undefined);
+		assert.equal(getNoProxyMatch(new URL("https://api.openai.com"), ["*"]), "*");
+	});
+
+	it("sends requests through the proxy unless they are bypassed", () => {
+		assert.deepEqual(resolveProxy(new URL("https://api.openai.com"), { proxy }), {
+			proxy,
+		});
+		assert.deepEqual(resolveProxy(new URL("https://api.openai.com")), {});
+		assert.deepEqual(resolveProxy(new URL("http://localhost:11434"), { proxy }), {
+			bypassed: "local host",
+		});
+		assert.deepEqual(
+			resolveProxy(new URL("https://llm.corp"), { proxy, noProxy: [".corp"] }),
+			{ bypassed: "matches no-proxy entry .corp" },
+		);
+	});
+});
+
+describe("getCertificateAuthorities", () => {
+	let directory: string;
+
+	before(async () => {
+		directory = await fs.mkdtemp(path.join(os.tmpdir(), "aicommits-ca-"));
+	});
+
+	after(() => fs.rm(directory, { recursive: true, force: true }));
+
+	it("adds the certificates of the file to the bundled ones", async () => {
+		const file = path.join(directory, "proxy.pem");
+		await fs.writeFile(file, `Proxy root\n${certificate}\n`);
+
+		assert.equal(getCertificateAuthorities(), undefined);
+		assert.deepEqual(getCertificateAuthorities(file), [
+			...tls.rootCertificates,
+			certificate,
+		]);
+	});
+
+	it("rejects missing files and files without certificates", async () => {
+		const file = path.join(directory, "empty.pem");
+		await fs.writeFile(file, "");
+
+		assert.throws(
+			() => getCertificateAuthorities(path.join(directory, "missing.pem")),
+			(error) => {
+				assert.ok(error instanceof ConfigError);
+				assert.match(error.message, /^Failed to read ca-file/);
+				return true;
+			},
+		);
+		assert.throws(() => getCertificateAuthorities(file), {
+			message: `The ca-file ${file} contains no PEM certificate`,
+		});
+	});
+});
+
+describe("getNetworkError", () => {
+	const codeError = (code: string) => Object.assign(new Error(code), { code });
+
+	it("explains network failures", () => {
+		assert.ok(
+			getNetworkError(codeError("ABORT_ERR"), "OpenAI") instanceof CancelledError,
+		);
+		assert.match(
+			getNetworkError(codeError("SELF_SIGNED_CERT_IN_CHAIN"), "OpenAI")?.message ?? "",
+			/^The certificate of OpenAI isn't trusted \(SELF_SIGNED_CERT_IN_CHAIN\)/,
+		);
+		assert.match(
+			getNetworkError(new HttpError(407, "Proxy Authentication Required", ""), "OpenAI")
+				?.message ?? "",
+			/^The proxy requires authentication/,
+		);
+		assert.equal(getNetworkError(new Error("Invalid response"), "OpenAI"), undefined);
+	});
+});
+
+describe("checkConnection", () => {
+	it("reports the status of any response", async () => {
+		const server = await startServer((_request, response) => {
+			response.writeHead(404).end();
+		});
+
+		try {
+			const { status, duration } = await checkConnection(server.url, { timeout: 1000 });
+
+			assert.equal(status, 404);
+			assert.ok(duration >= 0);
+			assert.equal(server.requests[0].method, "HEAD");
+		} finally {
+			await server.close();
+		}
+	});
+});
@@ -0,0 +1,103 @@
+import assert from "node:assert/strict";
+import { afterEach, beforeEach, describe, it } from "node:test";
+import {
+	defaultExcludes,
+	getExcludingRule,
+	ignoreFileName,
+	parseExcludeRules,
+	patternToRegExp,
+	readIgnoreFile,
+} from "./ignore.js";
+import { type TestRepo, createTestRepo } from "./testing.js";
+
+describe("patternToRegExp", () => {
+	const cases: [pattern: string, matches: string[], misses: string[]][] = [
+		["*.lock", ["yarn.lock", "packages/app/Cargo.lock"], ["lock", "yarn.lock.md"]],
+		["dist/**", ["dist/cli.js", "dist/types/index.d.ts"], ["src/dist/cli.js"]],
+		["/vendor", ["vendor/lib.js"], ["src/vendor/lib.js"]],
+		["generated/", ["generated/api.ts", "src/generated/api.ts"], ["generated"]],
+		["docs/*.md", ["docs/setup.md"], ["docs/api/setup.md", "src/docs/setup.md"]],
+		[
+			"**/fixtures/*.json",
+			["fixtures/a.json", "test/fixtures/a.json"],
+			["fixtures.json"],
+		],
+		["file?.txt", ["file1.txt"], ["file10.txt", "file/.txt"]],
+		["snapshot", ["snapshot", "test/snapshot/a.snap"], ["snapshots/a.snap"]],
+	];
+
+	for (const [pattern, matches, misses] of cases) {
+		it(`matches ${pattern}`, () => {
+			const matcher = patternToRegExp(pattern);
+			for (const file of matches) {
+				assert.ok(matcher.test(file), `${pattern} should match ${file}`);
+			}
+			for (const file of misses) {
+				assert.ok(!matcher.test(file), `${pattern} should not match ${file}`);
+			}
+		});
+	}
+
+	it("escapes regular expression characters", () => {
+		assert.ok(patternToRegExp("a+b.(c)").test("a+b.(c)"));
+		assert.ok(!patternToRegExp("a+b.(c)").test("aab.(c)"));
+	});
+});
+
+describe("getExcludingRule", () => {
+	const rules = [
+		...parseExcludeRules(defaultExcludes, "default"),
+		...parseExcludeRules(
+			["# Keep the yarn lock file", "", "!yarn.lock", "*.snap"],
+			ignoreFileName,
+		),
+	];
+
+	it("returns the rule excluding a file", () => {
+		assert.equal(getExcludingRule("pnpm-lock.yaml", rules)?.source, "default");
+		assert.deepEqual(
+			getExcludingRule("test/__snapshots__/cli.snap", rules)?.pattern,
+			"*.snap",
+		);
+	});
+
+	it("lets later negated rules include a file again", () => {
+		assert.equal(getExcludingRule("yarn.lock", rules), undefined);
+		assert.equal(getExcludingRule("Cargo.lock", rules)?.pattern, "*.lock");
+	});
+
+	it("includes files no rule matches", () => {
+		assert.equal(getExcludingRule("src/cli.ts", rules), undefined);
+	});
+});
+
+describe("readIgnoreFile", () => {
+	let repo: TestRepo;
+
+	beforeEach(async () => {
+		repo = await createTestRepo();
+	});
+
+	afterEach(() => repo.remove());
+
+	it("reads the rules of the ignore file, skipping comments and blank lines", async () => {
+		await repo.writeFile(
+			ignoreFileName,
+			"# Generated\r\nsrc/generated/\r\n\r\n!src/generated/index.ts\r\n",
+		);
+
+		const rules = await readIgnoreFile(repo.path);
+
+		assert.deepEqual(
+			rules.map(({ pattern, negated, source }) => ({ pattern, negated, source })),
+			[
+				{ pattern: "src/generated/", negated: false, source: ignoreFileName },
+				{ pattern: "!src/generated/index.ts", negated: true, source: ignoreFileName },
+			],
+		);
+	});
+
+	it("returns no rules without an ignore file", async () => {
+		assert.deepEqual(await readIgnoreFile(repo.path), []);
+	});
+});
@@ -0,0 +1,129 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+
+/**
+ * Name of the file listing paths to leave out of the diff, in gitignore syntax
+ */
+export const ignoreFileName = ".aicommitsignore";
+
+/**
+ * Default files to exclude from diff analysis
+ * These files typically contain auto-generated content that's not useful for commit messages
+ * Each entry can be re-included with a `!` pattern, e.g. `!yarn.lock`
+ */
+export const defaultExcludes = [
+	// Package manager lock files
+	"package-lock.json",
+	"pnpm-lock.yaml",
+	"yarn.lock",
+	"*.lock",
+	// Build outputs
+	"dist/**",
+	"build/**",
+];
+
+/**
+ * A single exclude pattern and where it was defined
+ */
+export type ExcludeRule = {
+	pattern: string;
+	negated: boolean;
+	source: string;
+	matcher: RegExp;
+};
+
+/**
+ * A file left out of the diff, with the rule that excluded it
+ */
+export type ExcludedFile = {
+	file: string;
+	reason: string;
+};
+
+/**
+ * Convert a gitignore pattern into a regular expression matching repository paths
+ * Patterns without a slash match a file or directory name at any depth,
+ * a trailing slash only matches directories
+ *
+ * @param pattern Pattern without the `!` prefix
+ * @returns Expression tested against paths relative to the repository root
+ */
+export const patternToRegExp = (pattern: string) => {
+	const directoryOnly = pattern.endsWith("/");
+	const trimmed = pattern.replace(/\/+$/, "");
+	const anchored = trimmed.includes("/");
+
+	const source = trimmed
+		.replace(/^\//, "")
+		.replace(/[.+^${}()|[\]\\]/g, "\\$&")
+		.replace(/\*\*\/|\/\*\*$|\*\*|\*|\?/g, (token) => {
+			switch (token) {
+				case "**/":
+					return "(?:.*/)?";
+				case "/**":
+					return "/.*";
+				case "**":
+					return ".*";
+				case "*":
+					return "[^/]*";
+				default:
+					return "[^/]";
+			}
+		});
+
+	// Matching a directory also matches everything inside it
+	return new RegExp(
+		`${anchored ? "^" : "(?:^|/)"}${source}${directoryOnly ? "/" : "(?:/|$)"}`,
+	);
+};
+
+/**
+ * Parse exclude patterns, blank lines and `#` comments are skipped
+ *
+ * @param patterns Patterns in gitignore syntax
+ * @param source Where the patterns come from, shown to the user
+ */
+export const parseExcludeRules = (patterns: string[], source: string): ExcludeRule[] =>
+	patterns
+		.map((pattern) => pattern.trim())
+		.filter((pattern) => pattern && !pattern.startsWith("#"))
+		.map((pattern) => {
+			const negated = pattern.startsWith("!");
+			const body = negated ? pattern.slice(1) : pattern;
+			return {
+				pattern,
+				negated,
+				source,
+				matcher: patternToRegExp(body),
+			};
+		});
+
+/**
+ * Read the `.aicommitsignore` file at the repository root
+ *
+ * @param repoRoot Path to the root of the repository
+ * @returns Its rules, none if the file doesn't exist
+ */
+export const readIgnoreFile = async (repoRoot: string): Promise<ExcludeRule[]> => {
+	const content = await fs
+		.readFile(path.join(repoRoot, ignoreFileName), "utf8")
+		.catch(() => "");
+	return parseExcludeRules(content.split(/\r?\n/), ignoreFileName);
+};
+
+/**
+ * Find the rule excluding a file, like gitignore the last matching rule wins
+ *
+ * @param file Path relative to the repository root
+ * @param rules Rules in order of precedence, lowest first
+ * @returns The excluding rule, undefined if the file is included
+ */
+export const getExcludingRule = (file: string, rules: ExcludeRule[]) => {
+	for (let index = rules.length - 1; index >= 0; index -= 1) {
+		const rule = rules[index];
+		if (rule.matcher.test(file)) {
+			return rule.negated ? undefined : rule;
+		}
+	}
+	return undefined;
+};
@@ -0,0 +1,79 @@
+import { dim, gray, green, magenta } from "kolorist";
+
+// Same frames and interval as the @clack/prompts spinner
+const frames = ["◒", "◐", "◓", "◑"];
+const frameInterval = 80;
+
+// Only the end of long previews is shown so the block never scrolls
+const maxPreviewLines = 8;
+
+/**
+ * A spinner that shows text streamed by the model below its status line
+ */
+export type PreviewSpinner = {
+	start: (message: string) => void;
+	stop: (message: string) => void;
+	// Replace the preview, one entry per generated message
+	preview: (texts: string[]) => void;
+};
+
+/**
+ * Create a spinner in the style of @clack/prompts that can show a live preview
+ * The clack spinner can't update while running, which a streamed response needs
+ */
+export const createPreviewSpinner = (): PreviewSpinner => {
+	let timer: NodeJS.Timeout | undefined;
+	let status = "";
+	let lines: string[] = [];
+	let renderedLines = 0;
+	let frame = 0;
+
+	// Lines wider than the terminal wrap and break the redraw
+	const fit = (line: string) =>
+		line.slice(0, Math.max((process.stdout.columns || 80) - 4, 10));
+
+	const render = () => {
+		const block = [
+			`${magenta(frames[frame])}  ${status}`,
+			...lines.map((line) => `${gray("│")}  ${dim(fit(line))}`),
+		];
+		frame = (frame + 1) % frames.length;
+
+		const clear = renderedLines > 0 ? `\x1b[${renderedLines}A\r\x1b[J` : "";
+		process.stdout.write(`${clear}${block.join("\n")}\n`);
+		renderedLines = block.length;
+	};
+
+	return {
+		start(message) {
+			status = message;
+			lines = [];
+			renderedLines = 0;
+			process.stdout.write(`\x1b[?25l${gray("│")}\n`);
+			render();
+			timer = setInterval(render, frameInterval);
+		},
+		stop(message) {
+			clearInterval(timer);
+			process.stdout.write(
+				`\x1b[${renderedLines}A\r\x1b[J${green("◇")}  ${message}\n\x1b[?25h`,
+			);
+			renderedLines = 0;
+		},
+		preview(texts) {
+			// Number the messages when several are generated
+			const numbered = texts.length > 1;
+			lines = texts
+				.flatMap((text, index) =>
+					text
+						.trim()
+						.split("\n")
+						.filter(Boolean)
+						.map((line, lineIndex) =>
+							!numbered ? line : lineIndex === 0 ? `${index + 1}. ${line}` : `   ${line}`,
+						),
+				)
+				.slice(-maxPreviewLines);
+		},
+	};
+};
@@ -0,0 +1,95 @@
+import assert from "node:assert/strict";
+import { before, describe, it } from "node:test";
+import { registerCommitTypes } from "./commit-types.js";
+import { type ValidConfig, getConfig } from "./config.js";
+import { generatePrompt, getDiffStats } from "./prompt.js";
+
+describe("generatePrompt", () => {
+	let config: ValidConfig;
+
+	before(async () => {
+		config = await getConfig();
+	});
+
+	it("describes the format and instructions of the commit type", () => {
+		registerCommitTypes({
+			ticket: { format: "[<ticket>] <type>: <commit message>", extends: "conventional" },
+			// Types without a format or a known base are ignored
+			broken: { extends: "unknown" },
+		});
+
+		const prompt = generatePrompt("en", 50, "ticket", config);
+
+		assert.match(prompt, /Choose a type from the type-to-description JSON/);
+		assert.match(
+			prompt,
+			/The output response must be in format:\n\[<ticket>\] <type>: <commit message>$/,
+		);
+		assert.match(generatePrompt("en", 50, "broken", config), /\n<commit message>$/);
+	});
+
+	it("renders prompt templates", () => {
+		const prompt = generatePrompt("fr", 60, "gitmoji", config, {
+			template:
+				"{defaultPrompt}\nBranch: {branch}\nStats: {diffStats}\nFormat: {format}\nKeep {unknown}\n",
+			diffStats: "1 file changed, 2 insertions(+), 0 deletions(-)",
+			branch: "feature/login",
+		});
+
+		assert.ok(prompt.startsWith(generatePrompt("fr", 60, "gitmoji", config)));
+		assert.ok(
+			prompt.endsWith(
+				[
+					"Branch: feature/login",
+					"Stats: 1 file changed, 2 insertions(+), 0 deletions(-)",
+					"Format: <emoji> <commit message>",
+					"Keep {unknown}",
+				].join("\n"),
+			),
+		);
+	});
+
+	it("replaces the default prompt with templates without {defaultPrompt}", () => {
+		assert.equal(
+			generatePrompt("en", 50, "", config, {
+				template: "Write a {maxLength} character message in {locale} ({type})",
+			}),
+			"Write a 50 character message in en ()",
+		);
+	});
+
+	it("appends the hint of the user", () => {
+		const hint = "Additional instructions from the user: mention the migration";
+
+		assert.ok(
+			generatePrompt("en", 50, "", config, { hint: "mention the migration" }).endsWith(
+				`\n${hint}`,
+			),
+		);
+		assert.equal(
+			generatePrompt("en", 50, "", config, {
+				template: "Write a commit message",
+				hint: "mention the migration",
+			}),
+			`Write a commit message\n${hint}`,
+		);
+	});
+});
+
+describe("getDiffStats", () => {
+	it("counts files, insertions and deletions", () => {
+		const diff = [
+			"diff --git a/a.ts b/a.ts",
+			"--- a/a.ts",
+			"+++ b/a.ts",
+			"@@ -1 +1,2 @@",
+			"-old",
+			"+new",
+			"+line",
+			"",
+		].join("\n");
+
+		assert.equal(getDiffStats(diff), "1 file changed, 2 insertions(+), 1 deletion(-)");
+		assert.equal(getDiffStats(""), "0 files changed, 0 insertions(+), 0 deletions(-)");
+	});
+});
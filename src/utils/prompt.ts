@@ -1,44 +1,63 @@
-import type { CommitType, ValidConfig } from "./config.js";
+import fs from "node:fs/promises";
+import { getCommitType } from "./commit-types.js";
+import { type CommitType, type ValidConfig, hasOwn } from "./config.js";
+import { ConfigError } from "./error.js";
 
-const commitTypeFormats: Record<CommitType, string> = {
-	"": "<commit message>",
-	conventional: "<type>(<optional scope>): <commit message>",
+/**
+ * Extra values available to prompt templates
+ */
+export type PromptContext = {
+	template?: string;
+	diffStats?: string;
+	branch?: string;
+	hint?: string;
+	// Instructions describing the style of the repository's history
+	style?: string;
 };
-const specifyCommitFormat = (type: CommitType) =>
-	`The output response must be in format:\n${commitTypeFormats[type]}`;
-
-const commitTypes: Record<CommitType, string> = {
-	"": "",
-
-	/**
-	 * References:
-	 * Commitlint:
-	 * https://github.com/conventional-changelog/commitlint/blob/18fbed7ea86ac0ec9d5449b4979b762ec4305a92/%40commitlint/config-conventional/index.js#L40-L100
-	 *
-	 * Conventional Changelog:
-	 * https://github.com/conventional-changelog/conventional-changelog/blob/d0e5d5926c8addba74bc962553dd8bcfba90e228/packages/conventional-changelog-conventionalcommits/writer-opts.js#L182-L193
-	 */
-	conventional: `Choose a type from the type-to-description JSON below that best describes the git diff:\n${JSON.stringify(
-		{
-			docs: "Documentation only changes",
-			style:
-				"Changes that do not affect the meaning of the code (white-space, formatting, missing semi-colons, etc)",
-			refactor: "A code change that neither fixes a bug nor adds a feature",
-			perf: "A code change that improves performance",
-			test: "Adding missing tests or correcting existing tests",
-			build: "Changes that affect the build system or external dependencies",
-			ci: "Changes to our CI configuration files and scripts",
-			chore: "Other changes that don't modify src or test files",
-			revert: "Reverts a previous commit",
-			feat: "A new feature",
-			fix: "A bug fix",
-		},
-		null,
-		2,
-	)}`,
+
+const specifyCommitFormat = (type: CommitType, body: boolean) =>
+	`The output response must be in format:\n${
+		getCommitType(type)?.format ?? "<commit message>"
+	}${body ? "\n\n<commit body>" : ""}`;
+
+/**
+ * Summarize a diff as files changed, insertions and deletions
+ */
+export const getDiffStats = (diff: string) => {
+	const files = diff.match(/^diff --git /gm)?.length ?? 0;
+	const insertions = diff.match(/^\+(?!\+\+ )/gm)?.length ?? 0;
+	const deletions = diff.match(/^-(?!-- )/gm)?.length ?? 0;
+
+	return `${files} file${files === 1 ? "" : "s"} changed, ${insertions} insertion${
+		insertions === 1 ? "" : "s"
+	}(+), ${deletions} deletion${deletions === 1 ? "" : "s"}(-)`;
 };
 
-export const generatePrompt = (
+/**
+ * Read a prompt template file
+ *
+ * @param file Path to the template
+ * @throws {ConfigError} If the template can't be read
+ */
+export const loadPromptTemplate = async (file: string) => {
+	try {
+		return await fs.readFile(file, "utf8");
+	} catch (error) {
+		throw new ConfigError(
+			`Failed to read prompt template ${file}: ${(error as Error).message}`,
+		);
+	}
+};
+
+/**
+ * Fill the `{placeholder}` values of a template, unknown placeholders are kept as is
+ */
+export const renderTemplate = (template: string, values: Record<string, string>) =>
+	template.replace(/\{(\w+)\}/g, (match, name: string) =>
+		hasOwn(values, name) ? values[name] : match,
+	);
+
+const generateDefaultPrompt = (
 	locale: string,
 	maxLength: number,
 	type: CommitType,
@@ -52,10 +71,132 @@ export const generatePrompt = (
 			? "Capitalize the first letter of the commit message, but the rest should be lowercase."
 			: "Don't capitalize the first letter of the commit message.",
 		"Don't end the commit message with a period.",
-		`Commit message must be a maximum of ${maxLength} characters.`,
+		config.body
+			? `The first line is the subject and must be a maximum of ${maxLength} characters. After a blank line, add a body of bullet points ("- ") explaining what changed and why, wrapped at 72 characters.`
+			: `Commit message must be a maximum of ${maxLength} characters.`,
 		"Exclude anything unnecessary such as translation. Your entire response will be passed directly into git commit.",
-		commitTypes[type],
-		specifyCommitFormat(type),
+		getCommitType(type)?.instructions,
+		specifyCommitFormat(type, config.body),
 	]
 		.filter(Boolean)
 		.join("\n");
+
+/**
+ * Instructions appended to every prompt: the history style and the user's hint
+ */
+const formatContextInstructions = (context: PromptContext) =>
+	`${context.style ? `\n${context.style}` : ""}${
+		context.hint ? `\nAdditional instructions from the user: ${context.hint}` : ""
+	}`;
+
+/**
+ * Build the system prompt. A prompt template replaces the default prompt,
+ * or extends it when it contains the `{defaultPrompt}` placeholder.
+ */
+export const generatePrompt = (
+	locale: string,
+	maxLength: number,
+	type: CommitType,
+	config: ValidConfig,
+	context: PromptContext = {},
+) => {
+	const defaultPrompt = generateDefaultPrompt(locale, maxLength, type, config);
+	const hint = formatContextInstructions(context);
+	if (!context.template) {
+		return `${defaultPrompt}${hint}`;
+	}
+
+	const prompt = renderTemplate(context.template, {
+		defaultPrompt,
+		locale,
+		maxLength: String(maxLength),
+		type,
+		format: getCommitType(type)?.format ?? "<commit message>",
+		typeInstructions: getCommitType(type)?.instructions ?? "",
+		diffStats: context.diffStats ?? "",
+		branch: context.branch ?? "",
+	}).trim();
+	return `${prompt}${hint}`;
+};
+
+/**
+ * Build the system prompt for splitting staged changes into several commits
+ */
+export const generateSplitPrompt = (
+	locale: string,
+	maxLength: number,
+	type: CommitType,
+	config: ValidConfig,
+	context: PromptContext = {},
+) =>
+	`${[
+		"Split the following staged changes into logical commits by grouping the files that belong to the same change.",
+		"Every file must be in exactly one group. Order the groups so each commit builds on the previous ones.",
+		"Write a concise commit message for each group with the given specifications below:",
+		`Message language: ${locale}`,
+		"Commit messages must be in imperative, present tense.",
+		config["capitalize-message"]
+			? "Capitalize the first letter of the commit message, but the rest should be lowercase."
+			: "Don't capitalize the first letter of the commit message.",
+		"Don't end the commit message with a period.",
+		config.body
+			? `The first line is the subject and must be a maximum of ${maxLength} characters. After a blank line, add a body of bullet points ("- ") explaining what changed and why.`
+			: `Commit messages must be a maximum of ${maxLength} characters.`,
+		getCommitType(type)?.instructions,
+		`The commit messages must be in format:\n${
+			getCommitType(type)?.format ?? "<commit message>"
+		}`,
+		'Respond with JSON only, in this shape: {"commits": [{"files": ["<path>"], "message": "<commit message>"}]}',
+	]
+		.filter(Boolean)
+		.join("\n")}${formatContextInstructions(context)}`;
+
+/**
+ * The default pull request body, see `pr-template`
+ */
+export const defaultPullRequestTemplate = `## Summary
+
+{summary}
+
+## Changes
+
+{changes}
+
+## Testing
+
+{testing}
+`;
+
+/**
+ * Build the system prompt for a pull request title and description
+ */
+export const generatePullRequestPrompt = (locale: string, context: PromptContext = {}) =>
+	`${[
+		"Write a pull request for the following changes of a branch, given as its commit messages and diff.",
+		`Language: ${locale}`,
+		"The title must be concise, in imperative present tense and a maximum of 72 characters.",
+		"The summary explains what the pull request does and why in one short paragraph.",
+		"The changes list the notable changes, one item each.",
+		"The testing items describe how the changes were or can be verified. Only mention tests that are part of the diff or commits, otherwise suggest manual checks.",
+		'Respond with JSON only, in this shape: {"title": "<title>", "summary": "<summary>", "changes": ["<change>"], "testing": ["<item>"]}',
+	].join("\n")}${formatContextInstructions(context)}`;
+
+/**
+ * Build the system prompt for rewriting commits into changelog entries
+ */
+export const generateChangelogPrompt = (locale: string, sections: readonly string[]) =>
+	[
+		"Turn the following commits into changelog entries for the users of the project.",
+		`Language: ${locale}`,
+		"Each entry is one short sentence describing the change from the user's point of view, in imperative present tense.",
+		`Choose the changelog section of each entry from: ${sections.join(", ")}.`,
+		'Use the section "Skip" for changes that don\'t affect users, such as refactorings, tests, CI or formatting.',
+		'Respond with JSON only, in this shape: {"entries": [{"commit": "<commit id>", "section": "<section>", "entry": "<entry>"}]}',
+	].join("\n");
+
+export const generateSummaryPrompt = () =>
+	[
+		"Summarize the following part of a git diff in one or two sentences.",
+		"Describe what changed and why it matters, not how the diff looks.",
+		"Respond in English with plain text only.",
+	].join("\n");
@@ -0,0 +1,189 @@
+import { ProviderError } from "../error.js";
+import {
+	HttpError,
+	type RequestOptions,
+	getNetworkError,
+	isStreamingUnsupported,
+	postJson,
+	postStream,
+} from "../http.js";
+import {
+	type CompletionRequest,
+	type Provider,
+	type ProviderOptions,
+	addUsage,
+} from "./types.js";
+
+const defaultBaseUrl = "https://api.anthropic.com";
+const anthropicVersion = "2023-06-01";
+
+type MessagesResponse = {
+	content?: { type: string; text?: string }[];
+	usage?: { input_tokens?: number; output_tokens?: number };
+};
+
+type AnthropicErrorBody = {
+	error?: { type?: string; message?: string };
+};
+
+// Events of a streamed response that carry text or token counts
+type MessagesStreamEvent = AnthropicErrorBody & {
+	type?: string;
+	message?: { usage?: { input_tokens?: number } };
+	delta?: { type?: string; text?: string };
+	usage?: { output_tokens?: number };
+};
+
+/**
+ * Map errors from the Anthropic Messages API to a user-friendly error
+ */
+const mapAnthropicError = (error: unknown) => {
+	const networkError = getNetworkError(error, "Anthropic API");
+	if (networkError) {
+		return networkError;
+	}
+
+	if (error instanceof HttpError) {
+		const body = error.body as AnthropicErrorBody | undefined;
+
+		if (error.status === 401) {
+			return new ProviderError(
+				"Invalid Anthropic API key. Set it via `aicommits config set api-key=<your key>`",
+				{ cause: error },
+			);
+		}
+
+		if (error.status === 529 || body?.error?.type === "overloaded_error") {
+			return new ProviderError("The Anthropic API is overloaded. Try again shortly.", {
+				cause: error,
+			});
+		}
+
+		return new ProviderError(
+			body?.error?.message ||
+				`Anthropic API Error: ${error.status} - ${error.statusText}`,
+			{ cause: error },
+		);
+	}
+
+	return error;
+};
+
+/**
+ * Get the text and token counts of a complete response
+ */
+const toResult = (response: MessagesResponse) => ({
+	message: (response.content || [])
+		.map((block) => (block.type === "text" ? block.text || "" : ""))
+		.join(""),
+	usage: {
+		promptTokens: response.usage?.input_tokens ?? 0,
+		completionTokens: response.usage?.output_tokens ?? 0,
+	},
+});
+
+/**
+ * Send a streaming request, reporting the text as it grows
+ */
+const streamMessage = async (
+	url: string,
+	body: Record<string, unknown>,
+	options: RequestOptions,
+	onToken: (text: string) => void,
+) => {
+	let message = "";
+	const usage = { promptTokens: 0, completionTokens: 0 };
+
+	const response = await postStream<MessagesResponse>(
+		url,
+		{ ...body, stream: true },
+		options,
+		(event) => {
+			const chunk = event as MessagesStreamEvent;
+			if (chunk.type === "error") {
+				throw new ProviderError(chunk.error?.message || "The stream was interrupted");
+			}
+
+			if (chunk.type === "message_start") {
+				usage.promptTokens = chunk.message?.usage?.input_tokens ?? 0;
+			} else if (
+				chunk.type === "content_block_delta" &&
+				chunk.delta?.type === "text_delta"
+			) {
+				message += chunk.delta.text ?? "";
+				onToken(message);
+			} else if (chunk.type === "message_delta") {
+				usage.completionTokens = chunk.usage?.output_tokens ?? 0;
+			}
+		},
+	);
+
+	// The server ignored `stream` and answered at once
+	return response ? toResult(response) : { message, usage };
+};
+
+/**
+ * Create a provider for the Anthropic Messages API
+ */
+export const createAnthropicProvider = ({
+	apiKey = "",
+	baseUrl,
+	network,
+}: ProviderOptions): Provider => {
+	const base = (baseUrl || defaultBaseUrl).replace(/\/+$/, "");
+
+	// The Messages API returns a single completion per request
+	const completeOnce = async (request: CompletionRequest, index: number) => {
+		const url = `${base}/v1/messages`;
+		const body = {
+			model: request.model,
+			system: request.systemPrompt,
+			messages: [{ role: "user", content: request.userPrompt }],
+			max_tokens: request.maxTokens,
+			temperature: request.temperature,
+		};
+		const options = {
+			headers: {
+				"x-api-key": apiKey,
+				"anthropic-version": anthropicVersion,
+			},
+			timeout: request.timeout,
+			network,
+			signal: request.signal,
+		};
+
+		const { onToken } = request;
+		if (onToken) {
+			try {
+				return await streamMessage(url, body, options, (text) => onToken(index, text));
+			} catch (error) {
+				if (!isStreamingUnsupported(error)) {
+					throw error;
+				}
+			}
+		}
+
+		return toResult(await postJson<MessagesResponse>(url, body, options));
+	};
+
+	return {
+		name: "Anthropic",
+		baseUrl: base,
+		async complete(request) {
+			try {
+				const results = await Promise.all(
+					Array.from({ length: request.completions }, (_, index) =>
+						completeOnce(request, index),
+					),
+				);
+				return {
+					messages: results.map(({ message }) => message).filter(Boolean),
+					usage: addUsage(...results.map(({ usage }) => usage)),
+					model: request.model,
+				};
+			} catch (error) {
+				throw mapAnthropicError(error);
+			}
+		},
+	};
+};
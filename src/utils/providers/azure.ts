@@ -0,0 +1,40 @@
+import { mapOpenAIError, requestChatCompletion } from "./openai.js";
+import type { Provider, ProviderOptions } from "./types.js";
+
+// Used unless the base URL already specifies an `api-version`
+const defaultApiVersion = "2024-06-01";
+
+/**
+ * Create a provider for Azure OpenAI deployments
+ * The configured model is used as the deployment name
+ */
+export const createAzureProvider = ({
+	apiKey = "",
+	baseUrl = "",
+	network,
+}: ProviderOptions): Provider => ({
+	name: "Azure OpenAI",
+	baseUrl,
+	async complete(request) {
+		const base = new URL(baseUrl);
+		const apiVersion = base.searchParams.get("api-version") || defaultApiVersion;
+		const url = new URL(
+			`${base.pathname.replace(/\/+$/, "")}/openai/deployments/${encodeURIComponent(
+				request.model,
+			)}/chat/completions`,
+			base.origin,
+		);
+		url.searchParams.set("api-version", apiVersion);
+
+		try {
+			return await requestChatCompletion(
+				url.toString(),
+				{ "api-key": apiKey },
+				request,
+				network,
+			);
+		} catch (error) {
+			throw mapOpenAIError(error, "Azure OpenAI");
+		}
+	},
+});
@@ -0,0 +1,466 @@
+import assert from "node:assert/strict";
+import { after, before, beforeEach, describe, it } from "node:test";
+import { getConfig } from "../config.js";
+import { CancelledError, KnownError } from "../error.js";
+import { type ReceivedRequest, sendJson, startServer } from "../testing.js";
+import { type CompletionRequest, getProvider } from "./index.js";
+
+const request: CompletionRequest = {
+	model: "test-model",
+	systemPrompt: "Write a commit message",
+	userPrompt: "diff --git a/index.ts b/index.ts",
+	completions: 2,
+	maxTokens: 200,
+	temperature: 0.7,
+	timeout: 1000,
+};
+
+describe("getProvider", () => {
+	let server: Awaited<ReturnType<typeof startServer>>;
+	// Status and body of the next responses, the events of a streamed response,
+	// or nothing to leave the request hanging
+	let reply: (
+		request: ReceivedRequest,
+	) =>
+		| [status: number, body: unknown]
+		| { contentType: string; lines: string[] }
+		| undefined;
+
+	before(async () => {
+		server = await startServer((received, response) => {
+			const next = reply(received);
+			if (Array.isArray(next)) {
+				sendJson(response, next[1], next[0]);
+			} else if (next) {
+				response.writeHead(200, { "content-type": next.contentType });
+				response.end(next.lines.map((line) => `${line}\n\n`).join(""));
+			}
+		});
+	});
+
+	// Server-sent events with a JSON document each
+	const sse = (...events: unknown[]) => ({
+		contentType: "text/event-stream",
+		lines: [...events.map((event) => `data: ${JSON.stringify(event)}`), "data: [DONE]"],
+	});
+
+	// Record the texts reported while streaming
+	const recordTokens = () => {
+		const tokens: [number, string][] = [];
+		return {
+			tokens,
+			onToken: (index: number, text: string) => {
+				tokens.push([index, text]);
+			},
+		};
+	};
+
+	beforeEach(() => {
+		server.requests.length = 0;
+	});
+
+	after(() => server.close());
+
+	it("requires the settings of the provider", async () => {
+		await assert.rejects(async () => getProvider(await getConfig()), {
+			message: /Please set your OpenAI API key/,
+		});
+		await assert.rejects(
+			async () => getProvider(await getConfig({ provider: "openai-compatible" })),
+			{ message: /The openai-compatible provider needs a base URL/ },
+		);
+		await assert.rejects(
+			async () =>
+				getProvider(
+					await getConfig({ provider: "openai-compatible", "base-url": server.url }),
+				),
+			{ message: /The openai-compatible provider has no default model/ },
+		);
+		await assert.rejects(
+			async () =>
+				getProvider(await getConfig({ provider: "anthropic", "base-url": server.url })),
+			{ message: /Please set your anthropic API key/ },
+		);
+	});
+
+	it("accepts API keys in any format", async () => {
+		const config = await getConfig({ OPENAI_KEY: "local-key" });
+
+		assert.equal(getProvider(config).name, "OpenAI");
+	});
+
+	describe("OpenAI-compatible", () => {
+		it("sends chat completions with a bearer token", async () => {
+			reply = () => [
+				200,
+				{
+					choices: [{ message: { content: "Add index" } }, { message: { content: "" } }],
+					usage: { prompt_tokens: 30, completion_tokens: 5 },
+				},
+			];
+			const provider = getProvider(
+				await getConfig({
+					provider: "openai-compatible",
+					"base-url": `${server.url}/v1/`,
+					model: "test-model",
+					"api-key": "secret",
+				}),
+			);
+
+			assert.deepEqual(await provider.complete(request), {
+				messages: ["Add index"],
+				usage: { promptTokens: 30, completionTokens: 5 },
+				model: "test-model",
+			});
+			const [received] = server.requests;
+			assert.equal(received.url, "/v1/chat/completions");
+			assert.equal(received.headers.authorization, "Bearer secret");
+			assert.deepEqual(received.body.messages, [
+				{ role: "system", content: "Write a commit message" },
+				{ role: "user", content: "diff --git a/index.ts b/index.ts" },
+			]);
+			assert.equal(received.body.n, 2);
+			assert.equal(received.body.max_tokens, 200);
+		});
+
+		it("reports the error message of the API", async () => {
+			reply = () => [400, { error: { message: "Unknown model test-model" } }];
+			const provider = getProvider(
+				await getConfig({
+					provider: "openai-compatible",
+					"base-url": server.url,
+					model: "test-model",
+				}),
+			);
+
+			await assert.rejects(provider.complete(request), (error) => {
+				assert.ok(error instanceof KnownError);
+				assert.equal(error.message, "Unknown model test-model");
+				return true;
+			});
+		});
+
+		it("streams the text of each choice", async () => {
+			reply = () =>
+				sse(
+					{ choices: [{ index: 0, delta: { content: "Add" } }] },
+					{ choices: [{ index: 1, delta: { content: "Fix" } }] },
+					{ choices: [{ index: 0, delta: { content: " index" } }] },
+					{ choices: [], usage: { prompt_tokens: 30, completion_tokens: 3 } },
+				);
+			const provider = getProvider(
+				await getConfig({
+					provider: "openai-compatible",
+					"base-url": server.url,
+					model: "test-model",
+				}),
+			);
+			const { tokens, onToken } = recordTokens();
+
+			assert.deepEqual(await provider.complete({ ...request, onToken }), {
+				messages: ["Add index", "Fix"],
+				usage: { promptTokens: 30, completionTokens: 3 },
+				model: "test-model",
+			});
+			assert.deepEqual(tokens, [
+				[0, "Add"],
+				[1, "Fix"],
+				[0, "Add index"],
+			]);
+			const [received] = server.requests;
+			assert.equal(received.body.stream, true);
+			assert.deepEqual(received.body.stream_options, { include_usage: true });
+		});
+
+		it("falls back to a single response without streaming support", async () => {
+			reply = ({ body }) =>
+				body.stream
+					? [400, { error: { message: "Unsupported parameter: stream" } }]
+					: [200, { choices: [{ message: { content: "Add index" } }] }];
+			const provider = getProvider(
+				await getConfig({
+					provider: "openai-compatible",
+					"base-url": server.url,
+					model: "test-model",
+				}),
+			);
+
+			const { messages } = await provider.complete({ ...request, onToken() {} });
+
+			assert.deepEqual(messages, ["Add index"]);
+			assert.deepEqual(
+				server.requests.map(({ body }) => body.stream),
+				[true, undefined],
+			);
+		});
+
+		it("reports errors sent in the stream", async () => {
+			reply = () => sse({ error: { message: "Rate limit reached" } });
+			const provider = getProvider(
+				await getConfig({
+					provider: "openai-compatible",
+					"base-url": server.url,
+					model: "test-model",
+				}),
+			);
+
+			await assert.rejects(provider.complete({ ...request, onToken() {} }), {
+				message: "Rate limit reached",
+			});
+		});
+
+		it("cancels the request when aborted", async () => {
+			reply = () => undefined;
+			const provider = getProvider(
+				await getConfig({
+					provider: "openai-compatible",
+					"base-url": server.url,
+					model: "test-model",
+				}),
+			);
+			const controller = new AbortController();
+
+			const completion = provider.complete({ ...request, signal: controller.signal });
+			setTimeout(() => controller.abort(), 50);
+
+			await assert.rejects(completion, (error) => {
+				assert.ok(error instanceof CancelledError);
+				return true;
+			});
+		});
+
+		it("gives up on servers that stop responding", async () => {
+			reply = () => undefined;
+			const provider = getProvider(
+				await getConfig({
+					provider: "openai-compatible",
+					"base-url": server.url,
+					model: "test-model",
+				}),
+			);
+
+			await assert.rejects(provider.complete({ ...request, timeout: 50 }), {
+				message:
+					"OpenAI-compatible API sent no response for too long. Try increasing the timeout via `aicommits config set timeout=<ms>`",
+			});
+		});
+	});
+
+	describe("Anthropic", () => {
+		it("sends one Messages request per completion", async () => {
+			reply = () => [
+				200,
+				{
+					content: [
+						{ type: "text", text: "Add " },
+						{ type: "tool_use" },
+						{ type: "text", text: "index" },
+					],
+					usage: { input_tokens: 30, output_tokens: 5 },
+				},
+			];
+			const provider = getProvider(
+				await getConfig({
+					provider: "anthropic",
+					"base-url": server.url,
+					"api-key": "key",
+				}),
+			);
+
+			assert.deepEqual(await provider.complete(request), {
+				messages: ["Add index", "Add index"],
+				usage: { promptTokens: 60, completionTokens: 10 },
+				model: "test-model",
+			});
+			assert.equal(server.requests.length, 2);
+			const [received] = server.requests;
+			assert.equal(received.url, "/v1/messages");
+			assert.equal(received.headers["x-api-key"], "key");
+			assert.equal(received.headers["anthropic-version"], "2023-06-01");
+			assert.equal(received.body.system, "Write a commit message");
+		});
+
+		it("maps authentication and overload errors", async () => {
+			const provider = getProvider(
+				await getConfig({
+					provider: "anthropic",
+					"base-url": server.url,
+					"api-key": "key",
+					"max-attempts": "1",
+				}),
+			);
+
+			reply = () => [401, { error: { type: "authentication_error" } }];
+			await assert.rejects(provider.complete({ ...request, completions: 1 }), {
+				message:
+					"Invalid Anthropic API key. Set it via `aicommits config set api-key=<your key>`",
+			});
+
+			reply = () => [529, { error: { type: "overloaded_error" } }];
+			await assert.rejects(provider.complete({ ...request, completions: 1 }), {
+				message: "The Anthropic API is overloaded. Try again shortly.",
+			});
+		});
+
+		it("streams message events", async () => {
+			reply = () =>
+				sse(
+					{ type: "message_start", message: { usage: { input_tokens: 30 } } },
+					{ type: "content_block_delta", delta: { type: "text_delta", text: "Add" } },
+					{ type: "content_block_delta", delta: { type: "text_delta", text: " index" } },
+					{ type: "message_delta", usage: { output_tokens: 3 } },
+				);
+			const provider = getProvider(
+				await getConfig({
+					provider: "anthropic",
+					"base-url": server.url,
+					"api-key": "key",
+				}),
+			);
+			const { tokens, onToken } = recordTokens();
+
+			assert.deepEqual(await provider.complete({ ...request, completions: 1, onToken }), {
+				messages: ["Add index"],
+				usage: { promptTokens: 30, completionTokens: 3 },
+				model: "test-model",
+			});
+			assert.deepEqual(tokens, [
+				[0, "Add"],
+				[0, "Add index"],
+			]);
+			assert.equal(server.requests[0].body.stream, true);
+		});
+	});
+
+	describe("Ollama", () => {
+		it("sends non-streaming chat requests", async () => {
+			reply = () => [
+				200,
+				{ message: { content: "Add index" }, prompt_eval_count: 30, eval_count: 5 },
+			];
+			const provider = getProvider(
+				await getConfig({ provider: "ollama", "base-url": server.url }),
+			);
+
+			assert.deepEqual(await provider.complete({ ...request, completions: 1 }), {
+				messages: ["Add index"],
+				usage: { promptTokens: 30, completionTokens: 5 },
+				model: "test-model",
+			});
+			const [received] = server.requests;
+			assert.equal(received.url, "/api/chat");
+			assert.equal(received.body.stream, false);
+			assert.equal(received.body.options.num_predict, 200);
+		});
+
+		it("streams newline-delimited chat responses", async () => {
+			reply = () => ({
+				contentType: "application/x-ndjson",
+				lines: [
+					JSON.stringify({ message: { content: "Add" } }),
+					JSON.stringify({ message: { content: " index" } }),
+					JSON.stringify({ done: true, prompt_eval_count: 30, eval_count: 3 }),
+				],
+			});
+			const provider = getProvider(
+				await getConfig({ provider: "ollama", "base-url": server.url }),
+			);
+			const { tokens, onToken } = recordTokens();
+
+			assert.deepEqual(await provider.complete({ ...request, completions: 1, onToken }), {
+				messages: ["Add index"],
+				usage: { promptTokens: 30, completionTokens: 3 },
+				model: "test-model",
+			});
+			assert.deepEqual(tokens, [
+				[0, "Add"],
+				[0, "Add index"],
+			]);
+			assert.equal(server.requests[0].body.stream, true);
+		});
+
+		it("explains missing models and servers that aren't running", async () => {
+			reply = () => [404, { error: "model not found" }];
+			const provider = getProvider(
+				await getConfig({ provider: "ollama", "base-url": server.url }),
+			);
+			await assert.rejects(provider.complete({ ...request, completions: 1 }), {
+				message:
+					'Model "test-model" not found in Ollama. Pull it first with `ollama pull test-model`',
+			});
+
+			const stopped = await startServer(() => {});
+			await stopped.close();
+			const offline = getProvider(
+				await getConfig({ provider: "ollama", "base-url": stopped.url }),
+			);
+			await assert.rejects(offline.complete(request), {
+				message: `Could not connect to Ollama at ${stopped.url}. Make sure \`ollama serve\` is running.`,
+			});
+		});
+	});
+
+	describe("retries", () => {
+		it("sends failed requests again, then falls back to the next model", async () => {
+			reply = ({ body }) =>
+				body.model === "test-model"
+					? [404, { error: { code: "model_not_found" } }]
+					: server.requests.length < 3
+					  ? [503, { error: { message: "Service unavailable" } }]
+					  : [200, { choices: [{ message: { content: "Add index" } }] }];
+			const provider = getProvider(
+				await getConfig({
+					provider: "openai-compatible",
+					"base-url": server.url,
+					model: "test-model",
+					"fallback-models": "backup-model",
+				}),
+			);
+			const messages: string[] = [];
+
+			const completion = await provider.complete({
+				...request,
+				onRetry: (message) => messages.push(message),
+			});
+
+			assert.deepEqual(completion.messages, ["Add index"]);
+			assert.equal(completion.model, "backup-model");
+			assert.deepEqual(
+				server.requests.map(({ body }) => body.model),
+				["test-model", "backup-model", "backup-model"],
+			);
+			assert.match(messages[0], /^Model not found, falling back to backup-model$/);
+			assert.match(
+				messages[1],
+				/^OpenAI-compatible API returned 503, retrying in 1s \(attempt 2\/3\)$/,
+			);
+		});
+	});
+
+	describe("Azure OpenAI", () => {
+		it("sends requests to the deployment named by the model", async () => {
+			reply = () => [200, { choices: [{ message: { content: "Add index" } }] }];
+
+			for (const baseUrl of [server.url, `${server.url}/?api-version=2024-10-21`]) {
+				const provider = getProvider(
+					await getConfig({
+						provider: "azure",
+						"base-url": baseUrl,
+						"api-key": "key",
+						model: "commit messages",
+					}),
+				);
+				await provider.complete({ ...request, model: "commit messages" });
+			}
+
+			assert.deepEqual(
+				server.requests.map(({ url }) => url),
+				[
+					"/openai/deployments/commit%20messages/chat/completions?api-version=2024-06-01",
+					"/openai/deployments/commit%20messages/chat/completions?api-version=2024-10-21",
+				],
+			);
+			assert.equal(server.requests[0].headers["api-key"], "key");
+		});
+	});
+});
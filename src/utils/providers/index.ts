@@ -0,0 +1,94 @@
+import type { ValidConfig } from "../config.js";
+import { ConfigError } from "../error.js";
+import type { NetworkOptions } from "../http.js";
+import { createAnthropicProvider } from "./anthropic.js";
+import { createAzureProvider } from "./azure.js";
+import { createOllamaProvider } from "./ollama.js";
+import { createOpenAIProvider } from "./openai.js";
+import { withRetries } from "./retry.js";
+import type { Provider } from "./types.js";
+
+export { addUsage } from "./types.js";
+export type { Completion, CompletionRequest, Provider, TokenUsage } from "./types.js";
+
+/**
+ * Get the proxy and certificate settings for provider requests
+ */
+export const getNetworkOptions = (config: ValidConfig): NetworkOptions => ({
+	proxy: config.proxy,
+	noProxy: config["no-proxy"],
+	caFile: config["ca-file"],
+});
+
+/**
+ * Create the adapter for the configured provider
+ */
+const createProvider = (config: ValidConfig): Provider => {
+	const apiKey = config["api-key"] || config.OPENAI_KEY;
+	const baseUrl = config["base-url"];
+	const network = getNetworkOptions(config);
+
+	const requireApiKey = () => {
+		if (!apiKey) {
+			throw new ConfigError(
+				config.provider === "openai"
+					? "Please set your OpenAI API key via `aicommits config set OPENAI_KEY=<your token>`"
+					: `Please set your ${config.provider} API key via \`aicommits config set api-key=<your key>\``,
+			);
+		}
+	};
+
+	const requireBaseUrl = () => {
+		if (!baseUrl) {
+			throw new ConfigError(
+				`The ${config.provider} provider needs a base URL. Set it via \`aicommits config set base-url=<url>\``,
+			);
+		}
+	};
+
+	const requireModel = () => {
+		if (!config.model) {
+			throw new ConfigError(
+				`The ${config.provider} provider has no default model. Set it via \`aicommits config set model=<name>\``,
+			);
+		}
+	};
+
+	switch (config.provider) {
+		case "openai-compatible":
+			requireBaseUrl();
+			requireModel();
+			return createOpenAIProvider({ apiKey, baseUrl, network }, "OpenAI-compatible API");
+
+		case "ollama":
+			return createOllamaProvider({ baseUrl, network });
+
+		case "anthropic":
+			requireApiKey();
+			return createAnthropicProvider({ apiKey, baseUrl, network });
+
+		case "azure":
+			requireApiKey();
+			requireBaseUrl();
+			requireModel();
+			return createAzureProvider({ apiKey, baseUrl, network });
+
+		default:
+			requireApiKey();
+			return createOpenAIProvider({ apiKey, baseUrl, network });
+	}
+};
+
+/**
+ * Get the provider adapter for the configured provider
+ * Failed requests are retried and fall back to the `fallback-models`
+ *
+ * @param config Validated configuration
+ * @returns Provider adapter
+ * @throws {ConfigError} If a required setting for the provider is missing
+ */
+export const getProvider = (config: ValidConfig): Provider =>
+	withRetries(createProvider(config), {
+		maxAttempts: config["max-attempts"],
+		fallbackModels: config["fallback-models"],
+	});
@@ -0,0 +1,139 @@
+import { ProviderError } from "../error.js";
+import { HttpError, getNetworkError, postStream } from "../http.js";
+import {
+	type CompletionRequest,
+	type Provider,
+	type ProviderOptions,
+	addUsage,
+} from "./types.js";
+
+const defaultBaseUrl = "http://localhost:11434";
+
+// Also the format of each line of a streamed response
+type OllamaChatResponse = {
+	message?: { content?: string };
+	prompt_eval_count?: number;
+	eval_count?: number;
+	error?: string;
+};
+
+type OllamaErrorBody = {
+	error?: string;
+};
+
+/**
+ * Map errors from an Ollama server to a user-friendly error
+ */
+const mapOllamaError = (error: unknown, baseUrl: string, model: string) => {
+	if ((error as { code?: string }).code === "ECONNREFUSED") {
+		return new ProviderError(
+			`Could not connect to Ollama at ${baseUrl}. Make sure \`ollama serve\` is running.`,
+		);
+	}
+
+	const networkError = getNetworkError(error, "Ollama");
+	if (networkError) {
+		return networkError;
+	}
+
+	if (error instanceof HttpError) {
+		if (error.status === 404) {
+			return new ProviderError(
+				`Model "${model}" not found in Ollama. Pull it first with \`ollama pull ${model}\``,
+				{ cause: error },
+			);
+		}
+
+		const body = error.body as OllamaErrorBody | undefined;
+		return new ProviderError(
+			body?.error || `Ollama Error: ${error.status} - ${error.statusText}`,
+			{ cause: error },
+		);
+	}
+
+	return error;
+};
+
+/**
+ * Create a provider for a local Ollama server
+ */
+export const createOllamaProvider = ({ baseUrl, network }: ProviderOptions): Provider => {
+	const base = (baseUrl || defaultBaseUrl).replace(/\/+$/, "");
+
+	// Ollama returns a single completion per request
+	const completeOnce = async (request: CompletionRequest, index: number) => {
+		const { onToken } = request;
+		let message = "";
+		let usage = { promptTokens: 0, completionTokens: 0 };
+
+		const response = await postStream<OllamaChatResponse>(
+			`${base}/api/chat`,
+			{
+				model: request.model,
+				messages: [
+					{ role: "system", content: request.systemPrompt },
+					{ role: "user", content: request.userPrompt },
+				],
+				stream: Boolean(onToken),
+				options: {
+					temperature: request.temperature,
+					top_p: 1,
+					num_predict: request.maxTokens,
+				},
+			},
+			{ timeout: request.timeout, network, signal: request.signal },
+			// The last line of the stream holds the token counts
+			onToken &&
+				((event) => {
+					const chunk = event as OllamaChatResponse;
+					if (chunk.error) {
+						throw new ProviderError(chunk.error);
+					}
+
+					if (chunk.message?.content) {
+						message += chunk.message.content;
+						onToken(index, message);
+					}
+					if (chunk.eval_count !== undefined) {
+						usage = {
+							promptTokens: chunk.prompt_eval_count ?? 0,
+							completionTokens: chunk.eval_count,
+						};
+					}
+				}),
+		);
+
+		if (!response) {
+			return { message, usage };
+		}
+
+		return {
+			message: response.message?.content || "",
+			usage: {
+				promptTokens: response.prompt_eval_count ?? 0,
+				completionTokens: response.eval_count ?? 0,
+			},
+		};
+	};
+
+	return {
+		name: "Ollama",
+		baseUrl: base,
+		async complete(request) {
+			try {
+				const results = await Promise.all(
+					Array.from({ length: request.completions }, (_, index) =>
+						completeOnce(request, index),
+					),
+				);
+				return {
+					messages: results.map(({ message }) => message).filter(Boolean),
+					usage: addUsage(...results.map(({ usage }) => usage)),
+					model: request.model,
+				};
+			} catch (error) {
+				throw mapOllamaError(error, base, request.model);
+			}
+		},
+	};
+};
@@ -0,0 +1,180 @@
+import { ProviderError } from "../error.js";
+import {
+	HttpError,
+	type NetworkOptions,
+	type RequestOptions,
+	getNetworkError,
+	isStreamingUnsupported,
+	postJson,
+	postStream,
+} from "../http.js";
+import type {
+	Completion,
+	CompletionRequest,
+	Provider,
+	ProviderOptions,
+} from "./types.js";
+
+const defaultBaseUrl = "https://api.openai.com/v1";
+
+type ChatCompletionUsage = { prompt_tokens?: number; completion_tokens?: number };
+
+type ChatCompletionResponse = {
+	choices?: { message?: { content?: string | null } }[];
+	usage?: ChatCompletionUsage;
+};
+
+type ChatCompletionChunk = {
+	choices?: { index?: number; delta?: { content?: string | null } }[];
+	usage?: ChatCompletionUsage | null;
+	error?: { message?: string };
+};
+
+type OpenAIErrorBody = {
+	error?: { message?: string };
+};
+
+/**
+ * Map errors from an OpenAI-style API to a user-friendly error
+ */
+export const mapOpenAIError = (error: unknown, service: string) => {
+	const networkError = getNetworkError(error, service);
+	if (networkError) {
+		return networkError;
+	}
+
+	if (error instanceof HttpError) {
+		const body = error.body as OpenAIErrorBody | undefined;
+		return new ProviderError(
+			body?.error?.message || `${service} Error: ${error.status} - ${error.statusText}`,
+			{ cause: error },
+		);
+	}
+
+	return error;
+};
+
+const toUsage = (usage?: ChatCompletionUsage | null) => ({
+	promptTokens: usage?.prompt_tokens ?? 0,
+	completionTokens: usage?.completion_tokens ?? 0,
+});
+
+const toCompletion = (response: ChatCompletionResponse): Omit<Completion, "model"> => ({
+	messages: (response.choices || [])
+		.map((choice) => choice.message?.content || "")
+		.filter(Boolean),
+	usage: toUsage(response.usage),
+});
+
+/**
+ * Send a streaming chat completion request, reporting the text of each choice as it grows
+ */
+const streamChatCompletion = async (
+	url: string,
+	body: Record<string, unknown>,
+	options: RequestOptions,
+	onToken: NonNullable<CompletionRequest["onToken"]>,
+): Promise<Omit<Completion, "model">> => {
+	const texts: string[] = [];
+	let usage = toUsage();
+
+	const response = await postStream<ChatCompletionResponse>(
+		url,
+		{ ...body, stream: true, stream_options: { include_usage: true } },
+		options,
+		(event) => {
+			const chunk = event as ChatCompletionChunk;
+			if (chunk.error) {
+				throw new ProviderError(chunk.error.message || "The stream was interrupted");
+			}
+
+			for (const { index = 0, delta } of chunk.choices || []) {
+				if (delta?.content) {
+					texts[index] = (texts[index] ?? "") + delta.content;
+					onToken(index, texts[index]);
+				}
+			}
+			if (chunk.usage) {
+				usage = toUsage(chunk.usage);
+			}
+		},
+	);
+
+	// The server ignored `stream` and answered at once
+	if (response) {
+		return toCompletion(response);
+	}
+
+	return { messages: texts.filter(Boolean), usage };
+};
+
+/**
+ * Send a chat completion request to an OpenAI-style endpoint
+ * Streams the response when the request has an `onToken` callback
+ */
+export const requestChatCompletion = async (
+	url: string,
+	headers: Record<string, string>,
+	request: CompletionRequest,
+	network?: NetworkOptions,
+): Promise<Completion> => {
+	const body = {
+		model: request.model,
+		messages: [
+			{ role: "system", content: request.systemPrompt },
+			{ role: "user", content: request.userPrompt },
+		],
+		temperature: request.temperature,
+		top_p: 1,
+		max_tokens: request.maxTokens,
+		n: request.completions,
+	};
+	const options = { headers, timeout: request.timeout, network, signal: request.signal };
+
+	if (request.onToken) {
+		try {
+			return {
+				...(await streamChatCompletion(url, body, options, request.onToken)),
+				model: request.model,
+			};
+		} catch (error) {
+			if (!isStreamingUnsupported(error)) {
+				throw error;
+			}
+		}
+	}
+
+	return {
+		...toCompletion(await postJson<ChatCompletionResponse>(url, body, options)),
+		model: request.model,
+	};
+};
+
+/**
+ * Create a provider for the OpenAI API, or any OpenAI-compatible endpoint
+ * such as LM Studio or vLLM when a base URL is given
+ */
+export const createOpenAIProvider = (
+	{ apiKey, baseUrl = defaultBaseUrl, network }: ProviderOptions,
+	name = "OpenAI",
+): Provider => ({
+	name,
+	baseUrl,
+	async complete(request) {
+		const headers: Record<string, string> = {};
+		if (apiKey) {
+			headers.authorization = `Bearer ${apiKey}`;
+		}
+
+		try {
+			return await requestChatCompletion(
+				`${baseUrl.replace(/\/+$/, "")}/chat/completions`,
+				headers,
+				request,
+				network,
+			);
+		} catch (error) {
+			throw mapOpenAIError(error, name);
+		}
+	},
+});
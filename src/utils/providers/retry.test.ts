@@ -0,0 +1,179 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { CancelledError, ProviderError } from "../error.js";
+import { HttpError } from "../http.js";
+import { getRetryDelay, withRetries } from "./retry.js";
+import type { CompletionRequest, Provider } from "./types.js";
+
+/**
+ * A provider error caused by an HTTP response, as the adapters throw them
+ */
+const httpError = (
+	status: number,
+	body: unknown = {},
+	headers: Record<string, string> = {},
+) =>
+	new ProviderError(`Request failed with ${status}`, {
+		cause: new HttpError(status, "", body, headers),
+	});
+
+const connectionError = (code: string) =>
+	new ProviderError("Connection failed", {
+		cause: Object.assign(new Error(code), { code }),
+	});
+
+const request: CompletionRequest = {
+	model: "gpt-4o",
+	systemPrompt: "",
+	userPrompt: "",
+	completions: 1,
+	maxTokens: 100,
+	temperature: 0.7,
+	timeout: 1000,
+};
+
+/**
+ * Provider failing with the given errors in turn, then answering
+ */
+const createProvider = (...errors: Error[]) => {
+	const models: string[] = [];
+	const provider: Provider = {
+		name: "Test",
+		baseUrl: "http://localhost",
+		async complete({ model }) {
+			models.push(model);
+			const error = errors.shift();
+			if (error) {
+				throw error;
+			}
+			return {
+				messages: ["fix: handle errors"],
+				usage: { promptTokens: 10, completionTokens: 5 },
+				model,
+			};
+		},
+	};
+	return { provider, models };
+};
+
+// Retry right away in tests
+const rateLimited = () => httpError(429, {}, { "retry-after-ms": "0" });
+
+describe("getRetryDelay", () => {
+	it("backs off exponentially with jitter", () => {
+		for (const [attempt, min, max] of [
+			[1, 500, 1000],
+			[3, 2000, 4000],
+			[10, 10_000, 20_000],
+		]) {
+			const delay = getRetryDelay(httpError(503), attempt) ?? -1;
+			assert.ok(delay >= min && delay <= max, `attempt ${attempt}: ${delay}`);
+		}
+	});
+
+	it("waits as long as the server asks", () => {
+		assert.equal(getRetryDelay(httpError(429, {}, { "retry-after": "3" }), 1), 3000);
+		assert.equal(getRetryDelay(httpError(429, {}, { "retry-after-ms": "250" }), 1), 250);
+		assert.equal(
+			getRetryDelay(httpError(429, {}, { "retry-after": "120" }), 1),
+			undefined,
+		);
+	});
+
+	it("retries dropped connections", () => {
+		assert.ok(getRetryDelay(connectionError("ECONNRESET"), 1));
+		assert.equal(getRetryDelay(connectionError("ENOTFOUND"), 1), undefined);
+	});
+
+	it("doesn't retry errors that would fail again", () => {
+		assert.equal(getRetryDelay(httpError(400), 1), undefined);
+		assert.equal(getRetryDelay(httpError(401), 1), undefined);
+		assert.equal(getRetryDelay(httpError(404), 1), undefined);
+		assert.equal(
+			getRetryDelay(httpError(429, { error: { code: "insufficient_quota" } }), 1),
+			undefined,
+		);
+		assert.equal(getRetryDelay(new Error("Invalid response"), 1), undefined);
+	});
+});
+
+describe("withRetries", () => {
+	it("retries until a request succeeds", async () => {
+		const { provider, models } = createProvider(
+			rateLimited(),
+			httpError(
+				502,
+				{},
+				{
+					"retry-after-ms": "0",
+				},
+			),
+		);
+		const messages: string[] = [];
+
+		const completion = await withRetries(provider, {
+			maxAttempts: 3,
+			fallbackModels: [],
+		}).complete({ ...request, onRetry: (message) => messages.push(message) });
+
+		assert.equal(completion.model, "gpt-4o");
+		assert.deepEqual(models, ["gpt-4o", "gpt-4o", "gpt-4o"]);
+		assert.deepEqual(messages, [
+			"Rate limited by Test, retrying in 0s (attempt 2/3)",
+			"Test returned 502, retrying in 0s (attempt 3/3)",
+		]);
+	});
+
+	it("falls back to the next model and reports the one that answered", async () => {
+		const { provider, models } = createProvider(
+			httpError(404, { error: { code: "model_not_found" } }),
+			rateLimited(),
+			rateLimited(),
+		);
+		const messages: string[] = [];
+
+		const completion = await withRetries(provider, {
+			maxAttempts: 2,
+			fallbackModels: ["gpt-4o", "gpt-4o-mini", "gpt-3.5-turbo"],
+		}).complete({ ...request, onRetry: (message) => messages.push(message) });
+
+		assert.equal(completion.model, "gpt-3.5-turbo");
+		assert.deepEqual(models, ["gpt-4o", "gpt-4o-mini", "gpt-4o-mini", "gpt-3.5-turbo"]);
+		assert.deepEqual(messages, [
+			"Model not found, falling back to gpt-4o-mini",
+			"Rate limited by Test, retrying in 0s (attempt 2/2)",
+			"Rate limited by Test, falling back to gpt-3.5-turbo",
+		]);
+	});
+
+	it("doesn't fall back on errors any model would get", async () => {
+		const unauthorized = httpError(401);
+		const { provider, models } = createProvider(unauthorized);
+
+		await assert.rejects(
+			withRetries(provider, {
+				maxAttempts: 3,
+				fallbackModels: ["gpt-4o-mini"],
+			}).complete(request),
+			unauthorized,
+		);
+		assert.deepEqual(models, ["gpt-4o"]);
+	});
+
+	it("stops waiting when the request is aborted", async () => {
+		const { provider, models } = createProvider(
+			httpError(429, {}, { "retry-after": "30" }),
+		);
+		const controller = new AbortController();
+		setTimeout(() => controller.abort(), 50);
+
+		await assert.rejects(
+			withRetries(provider, { maxAttempts: 3, fallbackModels: [] }).complete({
+				...request,
+				signal: controller.signal,
+			}),
+			CancelledError,
+		);
+		assert.deepEqual(models, ["gpt-4o"]);
+	});
+});
@@ -0,0 +1,206 @@
+import { CancelledError } from "../error.js";
+import { HttpError } from "../http.js";
+import type { Provider } from "./types.js";
+
+/**
+ * How failed requests are retried and which models are tried next
+ */
+export type RetryOptions = {
+	// Attempts per model, including the first request
+	maxAttempts: number;
+	// Models tried in order when the configured one is unavailable or keeps failing
+	fallbackModels: string[];
+};
+
+// Statuses of rate limits, overloaded servers and gateway errors
+const retryableStatuses = [408, 429, 500, 502, 503, 504, 529];
+
+// Connections closed by the server or a proxy, e.g. "socket hang up"
+const retryableCodes = ["ECONNRESET", "EPIPE", "EAI_AGAIN"];
+
+// Exponential backoff: 1s, 2s, 4s, ... up to 20s
+const baseDelay = 1000;
+const maxDelay = 20_000;
+
+// Waiting longer than this for a rate limit to reset isn't worth it
+const maxRetryAfter = 60_000;
+
+/**
+ * Get the low-level error behind a provider error
+ */
+const getCause = (error: unknown): unknown =>
+	error instanceof Error && error.cause ? error.cause : error;
+
+/**
+ * Whether the model doesn't exist or the account can't pay for it,
+ * another model may still work
+ */
+const isModelUnavailable = (error: unknown) => {
+	const cause = getCause(error);
+	if (!(cause instanceof HttpError)) {
+		return false;
+	}
+
+	const body = JSON.stringify(cause.body ?? "");
+	return (
+		cause.status === 404 ||
+		cause.status === 402 ||
+		/model_not_found|insufficient_quota|credit balance|billing/i.test(body)
+	);
+};
+
+/**
+ * Whether a request failed for a reason that may go away when sent again
+ */
+const isRetryable = (error: unknown) => {
+	const cause = getCause(error);
+	if (cause instanceof HttpError) {
+		return retryableStatuses.includes(cause.status) && !isModelUnavailable(error);
+	}
+	return retryableCodes.includes((cause as { code?: string }).code ?? "");
+};
+
+/**
+ * Read how long the server asks to wait, from `retry-after-ms` or `Retry-After`
+ *
+ * @returns Milliseconds, undefined if the server didn't say
+ */
+const getRetryAfter = (error: unknown) => {
+	const cause = getCause(error);
+	if (!(cause instanceof HttpError)) {
+		return undefined;
+	}
+
+	const milliseconds = Number(cause.headers["retry-after-ms"]);
+	if (milliseconds >= 0) {
+		return milliseconds;
+	}
+
+	// Either a number of seconds or an HTTP date
+	const value = cause.headers["retry-after"];
+	if (!value) {
+		return undefined;
+	}
+	const seconds = Number(value);
+	return Number.isNaN(seconds)
+		? Math.max(new Date(value).getTime() - Date.now(), 0) || undefined
+		: seconds * 1000;
+};
+
+/**
+ * Get how long to wait before sending a failed request again
+ *
+ * @param error The error of the failed attempt
+ * @param attempt Number of the failed attempt, starting at 1
+ * @returns Milliseconds, undefined if the request shouldn't be retried
+ */
+export const getRetryDelay = (error: unknown, attempt: number) => {
+	if (!isRetryable(error)) {
+		return undefined;
+	}
+
+	const retryAfter = getRetryAfter(error);
+	if (retryAfter !== undefined) {
+		return retryAfter <= maxRetryAfter ? retryAfter : undefined;
+	}
+
+	// Jitter keeps parallel requests from retrying in lockstep
+	const delay = Math.min(baseDelay * 2 ** (attempt - 1), maxDelay);
+	return Math.round(delay / 2 + Math.random() * (delay / 2));
+};
+
+/**
+ * Describe why a request failed in a few words, for the spinner
+ */
+const describeFailure = (error: unknown, service: string) => {
+	const cause = getCause(error);
+	if (cause instanceof HttpError) {
+		if (isModelUnavailable(error)) {
+			return cause.status === 404 ? "Model not found" : "Quota exceeded";
+		}
+		return cause.status === 429
+			? `Rate limited by ${service}`
+			: `${service} returned ${cause.status}`;
+	}
+	return `Connection to ${service} failed`;
+};
+
+/**
+ * Wait before the next attempt, stopping early when the request is aborted
+ */
+const wait = (milliseconds: number, signal?: AbortSignal) =>
+	new Promise<void>((resolve, reject) => {
+		const cancel = () => {
+			clearTimeout(timer);
+			reject(new CancelledError("Request cancelled"));
+		};
+		const timer = setTimeout(() => {
+			signal?.removeEventListener("abort", cancel);
+			resolve();
+		}, milliseconds);
+
+		if (signal?.aborted) {
+			cancel();
+			return;
+		}
+		signal?.addEventListener("abort", cancel, { once: true });
+	});
+
+/**
+ * Retry failed requests with exponential backoff, honouring `Retry-After`,
+ * and fall back to the next model when one is unavailable or keeps failing
+ *
+ * @param provider The provider to wrap
+ * @param options Maximum attempts and fallback models
+ * @returns A provider with the same name and endpoint
+ */
+export const withRetries = (
+	provider: Provider,
+	{ maxAttempts, fallbackModels }: RetryOptions,
+): Provider => ({
+	name: provider.name,
+	baseUrl: provider.baseUrl,
+	async complete(request) {
+		const models = [
+			request.model,
+			...fallbackModels.filter((model) => model !== request.model),
+		];
+
+		let lastError: unknown;
+		for (const [index, model] of models.entries()) {
+			if (index > 0) {
+				request.onRetry?.(
+					`${describeFailure(lastError, provider.name)}, falling back to ${model}`,
+				);
+			}
+
+			for (let attempt = 1; ; attempt += 1) {
+				try {
+					return await provider.complete({ ...request, model });
+				} catch (error) {
+					lastError = error;
+				}
+
+				const delay =
+					attempt < maxAttempts ? getRetryDelay(lastError, attempt) : undefined;
+				if (delay === undefined) {
+					break;
+				}
+
+				request.onRetry?.(
+					`${describeFailure(lastError, provider.name)}, retrying in ${Math.ceil(
+						delay / 1000,
+					)}s (attempt ${attempt + 1}/${maxAttempts})`,
+				);
+				await wait(delay, request.signal);
+			}
+
+			// Other errors, e.g. an invalid API key, would fail with any model
+			if (!isModelUnavailable(lastError) && !isRetryable(lastError)) {
+				break;
+			}
+		}
+
+		throw lastError;
+	},
+});
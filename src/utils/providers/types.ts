@@ -0,0 +1,66 @@
+import type { NetworkOptions } from "../http.js";
+
+/**
+ * A single chat completion request, independent of the provider
+ */
+export type CompletionRequest = {
+	model: string;
+	systemPrompt: string;
+	userPrompt: string;
+	completions: number;
+	maxTokens: number;
+	temperature: number;
+	// Milliseconds without any data from the provider before giving up
+	timeout: number;
+	// Aborts the request, e.g. when the user presses Ctrl+C
+	signal?: AbortSignal;
+	// Streams the response when set, called with the text of a completion so far
+	onToken?: (index: number, text: string) => void;
+	// Called with a status message before a failed request is retried
+	onRetry?: (message: string) => void;
+};
+
+/**
+ * Tokens used by one or more completion requests
+ */
+export type TokenUsage = {
+	promptTokens: number;
+	completionTokens: number;
+};
+
+/**
+ * The generated completions and the tokens they used
+ */
+export type Completion = {
+	messages: string[];
+	usage: TokenUsage;
+	// Model that answered, one of the `fallback-models` if the configured one failed
+	model: string;
+};
+
+/**
+ * Add up the token usage of several requests
+ */
+export const addUsage = (...usages: TokenUsage[]): TokenUsage => ({
+	promptTokens: usages.reduce((sum, usage) => sum + usage.promptTokens, 0),
+	completionTokens: usages.reduce((sum, usage) => sum + usage.completionTokens, 0),
+});
+
+/**
+ * Connection settings shared by all providers
+ */
+export type ProviderOptions = {
+	apiKey?: string;
+	baseUrl?: string;
+	network?: NetworkOptions;
+};
+
+/**
+ * An LLM backend that can generate chat completions
+ */
+export type Provider = {
+	name: string;
+	// Endpoint the requests are sent to
+	baseUrl: string;
+	complete: (request: CompletionRequest) => Promise<Completion>;
+};
@@ -0,0 +1,228 @@
+import type { ValidConfig } from "./config.js";
+import { SensitiveFilesError } from "./error.js";
+import { patternToRegExp } from "./ignore.js";
+
+/**
+ * A secret replaced with a placeholder before the diff is sent to the provider
+ */
+export type Redaction = {
+	file: string;
+	kind: string;
+};
+
+/**
+ * A diff with secrets replaced and sensitive files left out
+ */
+export type RedactedDiff = {
+	diff: string;
+	redactions: Redaction[];
+	// Files matching `sensitive-files`, their content isn't sent
+	sensitiveFiles: string[];
+};
+
+type SecretPattern = {
+	kind: string;
+	pattern: RegExp;
+	// Index of the group holding the secret, the whole match is replaced otherwise
+	group?: number;
+};
+
+// Well-known token formats, checked before the generic patterns
+const secretPatterns: SecretPattern[] = [
+	{
+		kind: "private-key",
+		pattern:
+			/-----BEGIN [A-Z ]*PRIVATE KEY( BLOCK)?-----[\s\S]*?-----END [A-Z ]*PRIVATE KEY( BLOCK)?-----/g,
+	},
+	{ kind: "aws-access-key", pattern: /\b(AKIA|ASIA)[0-9A-Z]{16}\b/g },
+	{
+		kind: "github-token",
+		pattern: /\b(gh[pousr]_[A-Za-z0-9]{36,}|github_pat_\w{22,})\b/g,
+	},
+	{ kind: "openai-key", pattern: /\bsk-(proj-|ant-)?[A-Za-z0-9_-]{20,}/g },
+	{ kind: "slack-token", pattern: /\bxox[abposr]-[A-Za-z0-9-]{10,}/g },
+	{ kind: "google-api-key", pattern: /\bAIza[0-9A-Za-z_-]{35}\b/g },
+	{ kind: "stripe-key", pattern: /\b[rs]k_(live|test)_[0-9A-Za-z]{16,}\b/g },
+	{
+		kind: "jwt",
+		pattern: /\beyJ[A-Za-z0-9_-]{8,}\.eyJ[A-Za-z0-9_-]{8,}\.[A-Za-z0-9_-]{8,}/g,
+	},
+	{
+		kind: "connection-string",
+		pattern: /\b[a-z][a-z0-9+.-]*:\/\/[^\s:/@]+:([^\s@/]{3,})@/g,
+		group: 1,
+	},
+	{
+		// Quoted values assigned to names like `apiKey`, `password` or `CLIENT_SECRET`
+		kind: "credential",
+		pattern:
+			/(?:passw(?:or)?d|secret|token|api[_-]?key|access[_-]?key|auth[_-]?key|credentials?)\w*["']?\s*[:=]\s*["'`]([^"'`\s]{8,})["'`]/gi,
+		group: 1,
+	},
+	{
+		// Unquoted dotenv style assignments, `API_TOKEN=...`
+		kind: "credential",
+		pattern:
+			/^([+ -]\s*(?:export\s+)?[A-Z0-9_]*(?:PASSWORD|PASSWD|SECRET|TOKEN|API_KEY|ACCESS_KEY|AUTH_KEY)[A-Z0-9_]*\s*=\s*)([^\s"'`#]{8,})/gm,
+		group: 2,
+	},
+];
+
+const placeholder = (kind: string) => `[REDACTED:${kind}]`;
+
+// Candidates for the entropy check, long runs of base64 and url-safe characters
+const tokenPattern = /[A-Za-z0-9+/_=-]{24,}/g;
+
+// Shannon entropy above which a mixed-case alphanumeric string looks random
+const entropyThreshold = 4.2;
+
+/**
+ * Shannon entropy of a string in bits per character
+ */
+const getEntropy = (value: string) => {
+	const counts = new Map<string, number>();
+	for (const char of value) {
+		counts.set(char, (counts.get(char) ?? 0) + 1);
+	}
+
+	let entropy = 0;
+	for (const count of counts.values()) {
+		const probability = count / value.length;
+		entropy -= probability * Math.log2(probability);
+	}
+	return entropy;
+};
+
+/**
+ * Whether a token looks like a random secret rather than code
+ * Hashes are pure hex and identifiers rarely mix digits into both cases,
+ * so only mixed-case strings with digits are considered
+ */
+const isHighEntropy = (token: string) =>
+	!token.includes("REDACTED") &&
+	/[a-z]/.test(token) &&
+	/[A-Z]/.test(token) &&
+	/\d/.test(token) &&
+	getEntropy(token) >= entropyThreshold;
+
+/**
+ * Whether a file matches one of the `sensitive-files` globs, in gitignore syntax
+ */
+export const isSensitiveFile = (file: string, globs: string[]) =>
+	globs.some((glob) => patternToRegExp(glob).test(file));
+
+/**
+ * Split a diff into the sections of each file
+ */
+const splitDiff = (diff: string) =>
+	diff
+		.split(/^(?=diff --git )/m)
+		.filter(Boolean)
+		.map((section) => ({
+			file: section.match(/^diff --git a\/.+? b\/(.+)$/m)?.[1] ?? "",
+			section,
+		}));
+
+/**
+ * Replace secrets in one file's diff
+ */
+const redactSection = (
+	file: string,
+	section: string,
+	userPatterns: RegExp[],
+	redactions: Redaction[],
+) => {
+	const replace = (text: string, { kind, pattern, group }: SecretPattern) =>
+		text.replace(pattern, (match, ...groups: unknown[]) => {
+			redactions.push({ file, kind });
+			if (!group) {
+				return placeholder(kind);
+			}
+
+			const secret = groups[group - 1] as string;
+			return match.replace(secret, placeholder(kind));
+		});
+
+	let redacted = section;
+	for (const secretPattern of secretPatterns) {
+		redacted = replace(redacted, secretPattern);
+	}
+	for (const pattern of userPatterns) {
+		redacted = replace(redacted, { kind: "custom", pattern });
+	}
+
+	// Only look for random strings in the changed lines, headers hold hashes
+	return redacted
+		.split("\n")
+		.map((line) =>
+			/^[+-](?![+-]{2} )/.test(line)
+				? line.replace(tokenPattern, (token) => {
+						if (!isHighEntropy(token)) {
+							return token;
+						}
+						redactions.push({ file, kind: "high-entropy-string" });
+						return placeholder("high-entropy-string");
+				  })
+				: line,
+		)
+		.join("\n");
+};
+
+/**
+ * Replace secrets in a diff with placeholders and leave out the content of
+ * sensitive files, so neither is sent to the provider
+ *
+ * @param diff The diff to send
+ * @param config Configuration with the redaction settings
+ * @returns The redacted diff, with what was redacted
+ * @throws {SensitiveFilesError} If sensitive files are changed and `sensitive-files-action` is `block`
+ */
+export const redactDiff = (diff: string, config: ValidConfig): RedactedDiff => {
+	const sections = splitDiff(diff);
+
+	const sensitiveFiles = sections
+		.map(({ file }) => file)
+		.filter((file) => isSensitiveFile(file, config["sensitive-files"]));
+	if (sensitiveFiles.length > 0 && config["sensitive-files-action"] === "block") {
+		throw new SensitiveFilesError(
+			`Refusing to send sensitive files: ${sensitiveFiles.join(
+				", ",
+			)}. Unstage or exclude them, or change the \`sensitive-files\` or \`sensitive-files-action\` config.`,
+		);
+	}
+
+	const userPatterns = config["redact-patterns"].map(
+		(pattern) => new RegExp(pattern, "g"),
+	);
+	const redactions: Redaction[] = [];
+	const redacted = sections.map(({ file, section }) => {
+		if (sensitiveFiles.includes(file)) {
+			// Keep the header so the model still knows the file changed
+			const header = section.split("\n")[0];
+			return `${header}\n[content of sensitive file omitted]\n`;
+		}
+
+		return config.redact
+			? redactSection(file, section, userPatterns, redactions)
+			: section;
+	});
+
+	return {
+		diff: redacted.join(""),
+		redactions,
+		sensitiveFiles,
+	};
+};
+
+/**
+ * Summarize redactions per file and kind, e.g. `src/app.ts: jwt (2)`
+ */
+export const describeRedactions = (redactions: Redaction[]) => {
+	const counts = new Map<string, number>();
+	for (const { file, kind } of redactions) {
+		const key = `${file}: ${kind}`;
+		counts.set(key, (counts.get(key) ?? 0) + 1);
+	}
+
+	return [...counts].map(([key, count]) => (count > 1 ? `${key} (${count})` : key));
+};
@@ -0,0 +1,103 @@
+import assert from "node:assert/strict";
+import { before, describe, it } from "node:test";
+import { type ValidConfig, getConfig } from "./config.js";
+import type { CompletionRequest, Provider } from "./providers/index.js";
+import { prepareDiff } from "./summarize.js";
+import { countTokens } from "./tokens.js";
+
+const model = "gpt-3.5-turbo";
+
+/**
+ * Diff of a new file with one added line per entry
+ */
+const fileDiff = (file: string, lines: number) =>
+	[
+		`diff --git a/${file} b/${file}`,
+		"new file mode 100644",
+		"--- /dev/null",
+		`+++ b/${file}`,
+		`@@ -0,0 +1,${lines} @@`,
+		...Array.from(
+			{ length: lines },
+			(_, index) => `+export const value${index} = ${index};`,
+		),
+		"",
+	].join("\n");
+
+/**
+ * Provider answering every summary request with the same text
+ */
+const createProvider = (summary: string) => {
+	const requests: CompletionRequest[] = [];
+	const provider: Provider = {
+		name: "Test",
+		baseUrl: "http://localhost",
+		async complete(request) {
+			requests.push(request);
+			return {
+				messages: [summary],
+				usage: { promptTokens: 100, completionTokens: 10 },
+				model: request.model,
+			};
+		},
+	};
+	return { provider, requests };
+};
+
+describe("prepareDiff", () => {
+	let config: ValidConfig;
+
+	before(async () => {
+		config = await getConfig({ model, "max-diff-tokens": "1000" });
+	});
+
+	it("sends diffs within the budget verbatim", async () => {
+		const diff = fileDiff("src/a.ts", 5);
+		const { provider, requests } = createProvider("Adds values");
+
+		const prepared = await prepareDiff(config, provider, diff);
+
+		assert.equal(prepared.content, diff);
+		assert.equal(prepared.verbatimFiles, 1);
+		assert.equal(prepared.summarizedFiles, 0);
+		assert.equal(requests.length, 0);
+		assert.deepEqual(prepared.usage, { promptTokens: 0, completionTokens: 0 });
+	});
+
+	it("summarizes the largest files and keeps small ones verbatim", async () => {
+		const small = fileDiff("src/small.ts", 3);
+		const diff = `${small}${fileDiff("src/large.ts", 200)}`;
+		const { provider, requests } = createProvider("Adds 200 numbered values");
+
+		const prepared = await prepareDiff(config, provider, diff);
+
+		assert.ok(prepared.content.startsWith(small));
+		assert.match(prepared.content, /^- src\/large\.ts: Adds 200 numbered values$/m);
+		assert.equal(prepared.verbatimFiles, 1);
+		assert.equal(prepared.summarizedFiles, 1);
+		assert.ok(requests.length > 0);
+		assert.ok(requests.every((request) => request.model === model));
+		assert.deepEqual(prepared.usage, {
+			promptTokens: 100 * requests.length,
+			completionTokens: 10 * requests.length,
+		});
+	});
+
+	it("leaves out summaries that don't fit the remaining budget", async () => {
+		const diff = Array.from({ length: 12 }, (_, index) =>
+			fileDiff(`src/file${index}.ts`, 60),
+		).join("");
+		const { provider } = createProvider(
+			"Adds a long list of exported numeric constants ".repeat(12),
+		);
+
+		const prepared = await prepareDiff(config, provider, diff);
+
+		assert.ok(countTokens(prepared.content, model) <= 1000);
+		assert.match(prepared.content, /^- \d+ more files? left out to fit the context$/m);
+		assert.equal(
+			prepared.summarizedFiles,
+			prepared.content.match(/^- src\/file\d+\.ts: /gm)?.length ?? 0,
+		);
+	});
+});
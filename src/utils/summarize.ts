@@ -0,0 +1,198 @@
+import type { ValidConfig } from "./config.js";
+import { type Provider, type TokenUsage, addUsage } from "./providers/index.js";
+import { generateSummaryPrompt } from "./prompt.js";
+import { countTokens, getDiffTokenBudget } from "./tokens.js";
+
+/**
+ * The diff content sent to the model, with details on how it was built
+ */
+export type PreparedDiff = {
+	content: string;
+	verbatimFiles: number;
+	summarizedFiles: number;
+	// Tokens used to summarise the diff
+	usage: TokenUsage;
+};
+
+type FileDiff = {
+	file: string;
+	diff: string;
+	tokens: number;
+};
+
+// Share of the budget kept for verbatim diffs, the rest is left for summaries
+const verbatimShare = 0.75;
+
+// Maximum length of a single chunk summary
+const summaryMaxTokens = 150;
+
+// Room kept for the note on files left out
+const omittedNoteTokens = 16;
+
+/**
+ * Split a diff into one entry per file
+ */
+const splitByFile = (diff: string, model: string): FileDiff[] =>
+	diff
+		.split(/^(?=diff --git )/m)
+		.filter(Boolean)
+		.map((fileDiff) => ({
+			file: fileDiff.match(/^diff --git a\/.+? b\/(.+)$/m)?.[1] ?? "unknown file",
+			diff: fileDiff,
+			tokens: countTokens(fileDiff, model),
+		}));
+
+/**
+ * Split a file diff into chunks of whole hunks that fit the budget.
+ * Hunks that are too large on their own are truncated.
+ */
+const splitByHunk = (fileDiff: FileDiff, budget: number, model: string): string[] => {
+	const [header, ...hunks] = fileDiff.diff.split(/^(?=@@ )/m);
+	const chunks: string[] = [];
+	let current = "";
+
+	for (const hunk of hunks) {
+		const candidate = `${current}${hunk}`;
+		if (current && countTokens(header + candidate, model) > budget) {
+			chunks.push(header + current);
+			current = hunk;
+		} else {
+			current = candidate;
+		}
+	}
+	chunks.push(header + current);
+
+	return chunks.map((chunk) => {
+		const tokens = countTokens(chunk, model);
+		return tokens > budget
+			? chunk.slice(0, Math.floor((chunk.length * budget) / tokens))
+			: chunk;
+	});
+};
+
+/**
+ * Fit the diff into the token budget of the configured model.
+ * Diffs over budget are split per file (and per hunk when needed), the largest files
+ * are summarised by the model and the rest is sent verbatim. Summaries that don't fit
+ * the rest of the budget are left out, so the prompt never exceeds it.
+ *
+ * @param config Validated configuration
+ * @param provider Provider used to summarise chunks
+ * @param diff Full staged diff
+ * @param onProgress Called with a status message before summarising
+ * @param signal Aborts the summary requests
+ * @returns The content to send to the model
+ */
+export const prepareDiff = async (
+	config: ValidConfig,
+	provider: Provider,
+	diff: string,
+	onProgress?: (message: string) => void,
+	signal?: AbortSignal,
+): Promise<PreparedDiff> => {
+	const { model } = config;
+	const budget = getDiffTokenBudget(model, config["max-diff-tokens"]);
+	const files = splitByFile(diff, model);
+
+	if (countTokens(diff, model) <= budget) {
+		return {
+			content: diff,
+			verbatimFiles: files.length,
+			summarizedFiles: 0,
+			usage: addUsage(),
+		};
+	}
+
+	// Keep the smallest files verbatim while they fit
+	const verbatim = new Set<FileDiff>();
+	let verbatimTokens = 0;
+	for (const file of [...files].sort((a, b) => a.tokens - b.tokens)) {
+		if (verbatimTokens + file.tokens > budget * verbatimShare) {
+			break;
+		}
+		verbatim.add(file);
+		verbatimTokens += file.tokens;
+	}
+
+	const toSummarize = files.filter((file) => !verbatim.has(file));
+	const chunks = toSummarize.flatMap((file) =>
+		splitByHunk(file, budget, model).map((chunk) => ({ file: file.file, chunk })),
+	);
+
+	onProgress?.(
+		`Summarising ${toSummarize.length} large file${toSummarize.length > 1 ? "s" : ""} (${
+			chunks.length
+		} chunk${chunks.length > 1 ? "s" : ""})`,
+	);
+
+	// Summaries only get what the verbatim files left of the budget
+	const heading =
+		"The following changes were too large to include and have been summarised:";
+	let remaining =
+		budget - verbatimTokens - countTokens(heading, model) - omittedNoteTokens;
+
+	const summaries: string[] = [];
+	const summarized = new Set<string>();
+	const omitted = new Set<string>();
+	let usage = addUsage();
+	for (const { file, chunk } of chunks) {
+		// Once the budget is used up, the remaining chunks aren't summarised at all
+		if (remaining < summaryMaxTokens) {
+			omitted.add(file);
+			continue;
+		}
+
+		const {
+			messages: [summary],
+			usage: summaryUsage,
+		} = await provider.complete({
+			model,
+			systemPrompt: generateSummaryPrompt(),
+			userPrompt: chunk,
+			completions: 1,
+			maxTokens: summaryMaxTokens,
+			temperature: 0.2,
+			timeout: config.timeout,
+			signal,
+			onRetry: onProgress,
+		});
+
+		usage = addUsage(usage, summaryUsage);
+		if (!summary) {
+			continue;
+		}
+
+		const line = `- ${file}: ${summary.trim().replace(/\s*\n\s*/g, " ")}`;
+		const tokens = countTokens(line, model) + 1;
+		if (tokens > remaining) {
+			omitted.add(file);
+			continue;
+		}
+		summaries.push(line);
+		summarized.add(file);
+		remaining -= tokens;
+	}
+
+	const content = [
+		files
+			.filter((file) => verbatim.has(file))
+			.map((file) => file.diff)
+			.join(""),
+		heading,
+		...summaries,
+		...(omitted.size > 0
+			? [
+					`- ${omitted.size} more file${
+						omitted.size > 1 ? "s" : ""
+					} left out to fit the context`,
+			  ]
+			: []),
+	].join("\n");
+
+	return {
+		content,
+		verbatimFiles: verbatim.size,
+		summarizedFiles: summarized.size,
+		usage,
+	};
+};
@@ -0,0 +1,161 @@
+import fs from "node:fs";
+import http from "node:http";
+import type { AddressInfo } from "node:net";
+import os from "node:os";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import { execa } from "execa";
+
+/*
+ * Helpers for the tests, loaded with `--import` before every test file so that
+ * the developer's config, caches and git settings never leak into a test run
+ */
+
+const testHome = fs.mkdtempSync(path.join(os.tmpdir(), "aicommits-home-"));
+process.on("exit", () => fs.rmSync(testHome, { recursive: true, force: true }));
+
+for (const name of [
+	"OPENAI_KEY",
+	"OPENAI_API_KEY",
+	"https_proxy",
+	"HTTPS_PROXY",
+	"http_proxy",
+	"HTTP_PROXY",
+]) {
+	delete process.env[name];
+}
+
+Object.assign(process.env, {
+	HOME: testHome,
+	XDG_CACHE_HOME: path.join(testHome, ".cache"),
+	XDG_STATE_HOME: path.join(testHome, ".local/state"),
+	// Commits in test repositories need an identity, and git must not open an editor
+	GIT_AUTHOR_NAME: "Test",
+	GIT_AUTHOR_EMAIL: "test@example.com",
+	GIT_COMMITTER_NAME: "Test",
+	GIT_COMMITTER_EMAIL: "test@example.com",
+	GIT_EDITOR: "true",
+	GIT_CONFIG_GLOBAL: "/dev/null",
+	GIT_CONFIG_NOSYSTEM: "1",
+	GIT_CONFIG_COUNT: "0",
+});
+
+/**
+ * A throwaway Git repository, with its own home directory for config files
+ */
+export type TestRepo = {
+	path: string;
+	home: string;
+	git: (...args: string[]) => Promise<string>;
+	writeFile: (file: string, content: string) => Promise<void>;
+	remove: () => Promise<void>;
+};
+
+/**
+ * Create an empty Git repository in a temporary directory
+ */
+export const createTestRepo = async (): Promise<TestRepo> => {
+	const root = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), "aicommits-")));
+	const repoPath = path.join(root, "repo");
+	const home = path.join(root, "home");
+	fs.mkdirSync(repoPath);
+	fs.mkdirSync(home);
+
+	const git = async (...args: string[]) =>
+		(await execa("git", args, { cwd: repoPath })).stdout;
+	await git("init", "--quiet", "--initial-branch=main");
+
+	return {
+		path: repoPath,
+		home,
+		git,
+		async writeFile(file, content) {
+			const filePath = path.join(repoPath, file);
+			await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+			await fs.promises.writeFile(filePath, content);
+		},
+		remove: () => fs.promises.rm(root, { recursive: true, force: true }),
+	};
+};
+
+const tsxPath = fileURLToPath(new URL("../../node_modules/.bin/tsx", import.meta.url));
+const cliPath = fileURLToPath(new URL("../cli.ts", import.meta.url));
+
+/**
+ * Run the CLI from source in a test repository, with the repository's home directory
+ *
+ * @returns The finished process, failures don't throw
+ */
+export const runCli = (
+	repo: TestRepo,
+	args: string[],
+	env: Record<string, string> = {},
+) =>
+	execa(tsxPath, [cliPath, ...args], {
+		cwd: repo.path,
+		env: { HOME: repo.home, ...env },
+		reject: false,
+	});
+
+/**
+ * A request received by a test server
+ */
+export type ReceivedRequest = {
+	method: string;
+	url: string;
+	headers: http.IncomingHttpHeaders;
+	// Parsed JSON body, the raw text if it isn't JSON
+	// biome-ignore lint/suspicious/noExplicitAny: tests read whatever fields they sent
+	body: any;
+};
+
+/**
+ * Start an HTTP server on a free local port, standing in for a provider API
+ *
+ * @param respond Writes the response to each request
+ * @returns The server URL, the requests received so far and a function to stop it
+ */
+export const startServer = async (
+	respond: (request: ReceivedRequest, response: http.ServerResponse) => void,
+) => {
+	const requests: ReceivedRequest[] = [];
+	const server = http.createServer((request, response) => {
+		let text = "";
+		request.on("data", (chunk) => {
+			text += chunk;
+		});
+		request.on("end", () => {
+			let body: unknown = text;
+			try {
+				body = JSON.parse(text);
+			} catch {}
+
+			const received = {
+				method: request.method ?? "",
+				url: request.url ?? "",
+				headers: request.headers,
+				body,
+			};
+			requests.push(received);
+			respond(received, response);
+		});
+	});
+	await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+
+	return {
+		url: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+		requests,
+		close: () => {
+			server.closeAllConnections();
+			return new Promise<void>((resolve) => server.close(() => resolve()));
+		},
+	};
+};
+
+/**
+ * Send a JSON response
+ */
+export const sendJson = (response: http.ServerResponse, body: unknown, status = 200) => {
+	response.writeHead(status, { "content-type": "application/json" });
+	response.end(JSON.stringify(body));
+};
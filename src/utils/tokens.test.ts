@@ -0,0 +1,34 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { countTokens, getDiffTokenBudget } from "./tokens.js";
+
+describe("countTokens", () => {
+	it("counts tokens with the tokenizer of the model", () => {
+		assert.equal(countTokens("", "gpt-4o"), 0);
+		assert.ok(countTokens("Add token budgets", "gpt-4o") > 0);
+	});
+
+	it("falls back to cl100k_base for unknown models", () => {
+		assert.equal(
+			countTokens("Add token budgets", "llama3"),
+			countTokens("Add token budgets", "gpt-4"),
+		);
+	});
+});
+
+describe("getDiffTokenBudget", () => {
+	it("leaves room for the prompt and the message in the context window", () => {
+		assert.equal(getDiffTokenBudget("gpt-4o-mini"), 127_000);
+		assert.equal(getDiffTokenBudget("gpt-4-32k"), 31_768);
+		assert.equal(getDiffTokenBudget("gpt-4"), 7_192);
+		assert.equal(getDiffTokenBudget("gpt-3.5-turbo-instruct"), 3_096);
+		assert.equal(getDiffTokenBudget("gpt-3.5-turbo"), 15_385);
+		assert.equal(getDiffTokenBudget("claude-3-5-sonnet-latest"), 199_000);
+		assert.equal(getDiffTokenBudget("llama3"), 7_192);
+	});
+
+	it("applies the configured limit when it is lower", () => {
+		assert.equal(getDiffTokenBudget("gpt-4o", 2_000), 2_000);
+		assert.equal(getDiffTokenBudget("gpt-4", 20_000), 7_192);
+	});
+});
@@ -0,0 +1,68 @@
+import {
+	type Tiktoken,
+	type TiktokenModel,
+	encoding_for_model,
+	get_encoding,
+} from "@dqbd/tiktoken";
+
+/**
+ * Context window sizes by model name, first match wins
+ */
+const contextWindows: [pattern: RegExp, tokens: number][] = [
+	[/^(gpt-4o|gpt-4\.1|gpt-4-turbo|gpt-4-\d{4}-preview|o\d)/, 128_000],
+	[/^gpt-4-32k/, 32_768],
+	[/^gpt-4/, 8_192],
+	[/^gpt-3\.5-turbo-instruct/, 4_096],
+	[/^gpt-3\.5-turbo/, 16_385],
+	[/^claude/, 200_000],
+];
+
+// Conservative fallback for models we don't know about (e.g. local models)
+const defaultContextWindow = 8_192;
+
+// Tokens kept free for the system prompt and the generated message
+const reservedTokens = 1_000;
+
+// Encoders are expensive to create, so keep one per model for the process
+const encoders = new Map<string, Tiktoken>();
+
+/**
+ * Get the tokenizer for a model, falling back to cl100k_base for unknown models
+ */
+const getEncoder = (model: string): Tiktoken => {
+	let encoder = encoders.get(model);
+	if (!encoder) {
+		try {
+			encoder = encoding_for_model(model as TiktokenModel);
+		} catch {
+			encoder = get_encoding("cl100k_base");
+		}
+		encoders.set(model, encoder);
+	}
+	return encoder;
+};
+
+/**
+ * Count the tokens of a text for the given model
+ *
+ * @param text Text to tokenize
+ * @param model Model name, used to pick the tokenizer
+ * @returns Number of tokens
+ */
+export const countTokens = (text: string, model: string): number =>
+	getEncoder(model).encode(text, "all").length;
+
+/**
+ * Get the number of tokens the diff may use for a model
+ *
+ * @param model Model name
+ * @param maxDiffTokens Optional user-configured limit
+ * @returns Token budget for the diff
+ */
+export const getDiffTokenBudget = (model: string, maxDiffTokens?: number): number => {
+	const contextWindow =
+		contextWindows.find(([pattern]) => pattern.test(model))?.[1] ?? defaultContextWindow;
+	const modelBudget = contextWindow - reservedTokens;
+
+	return maxDiffTokens ? Math.min(maxDiffTokens, modelBudget) : modelBudget;
+};
@@ -0,0 +1,88 @@
+import assert from "node:assert/strict";
+import fs from "node:fs/promises";
+import path from "node:path";
+import { afterEach, beforeEach, describe, it } from "node:test";
+import { getConfig } from "./config.js";
+import { type TestRepo, createTestRepo } from "./testing.js";
+import {
+	collectTrailers,
+	endPairSession,
+	readPairSession,
+	resolveCoAuthor,
+	startPairSession,
+} from "./trailers.js";
+
+const authors = ["Jane Doe <jane@example.com>", "John Roe <john@example.com>"];
+
+describe("resolveCoAuthor", () => {
+	it("looks up names and emails among recent authors", () => {
+		assert.equal(resolveCoAuthor("jane", authors), "Jane Doe <jane@example.com>");
+		assert.equal(resolveCoAuthor("john@", authors), "John Roe <john@example.com>");
+		assert.equal(resolveCoAuthor(" Max <max@example.com> ", []), "Max <max@example.com>");
+	});
+
+	it("rejects names that match no author or several", () => {
+		assert.throws(() => resolveCoAuthor("max", authors), {
+			message: 'No recent author matches "max", use the full "Name <email>" form',
+		});
+		assert.throws(() => resolveCoAuthor("example.com", authors), {
+			message: /^"example.com" matches several authors/,
+		});
+	});
+});
+
+describe("trailers", () => {
+	const cwd = process.cwd();
+	let repo: TestRepo;
+
+	beforeEach(async () => {
+		repo = await createTestRepo();
+		process.chdir(repo.path);
+		await repo.git(
+			"commit",
+			"--allow-empty",
+			"-m",
+			"Add index\n\nCo-authored-by: Jane Doe <jane@example.com>",
+		);
+	});
+
+	afterEach(async () => {
+		process.chdir(cwd);
+		await repo.remove();
+	});
+
+	it("stores the pair session until it ends or expires", async () => {
+		await startPairSession(["Jane Doe <jane@example.com>"]);
+		assert.deepEqual((await readPairSession(8))?.coAuthors, [
+			"Jane Doe <jane@example.com>",
+		]);
+
+		await endPairSession();
+		assert.equal(await readPairSession(8), undefined);
+
+		const file = path.join(repo.path, ".git/AICOMMITS_PAIR");
+		const startedAt = Date.now() - 9 * 60 * 60 * 1000;
+		await fs.writeFile(file, JSON.stringify({ startedAt, coAuthors: [] }));
+		assert.equal(await readPairSession(8), undefined);
+		await assert.rejects(fs.stat(file), { code: "ENOENT" });
+	});
+
+	it("collects the configured trailers, ticket, co-authors and sign-off in order", async () => {
+		await repo.git("checkout", "--quiet", "-b", "ENG-42-login");
+		await startPairSession(["Jane Doe <jane@example.com>"]);
+		const config = await getConfig({
+			trailers: "Reviewed-by: Max <max@example.com>",
+			"use-branch-prefix": "true",
+			"branch-prefix-placement": "trailer",
+			signoff: "true",
+		});
+
+		assert.deepEqual(await collectTrailers(config, ["jane", "Max <max@example.com>"]), [
+			"Reviewed-by: Max <max@example.com>",
+			"Refs: ENG-42",
+			"Co-authored-by: Jane Doe <jane@example.com>",
+			"Co-authored-by: Max <max@example.com>",
+			"Signed-off-by: Test <test@example.com>",
+		]);
+	});
+});
@@ -0,0 +1,143 @@
+import fs from "node:fs/promises";
+import type { ValidConfig } from "./config.js";
+import { getBranchTrailer } from "./branch-prefix.js";
+import { KnownError } from "./error.js";
+import {
+	getCommitterIdentity,
+	getCurrentBranch,
+	getGitPath,
+	getRecentAuthors,
+} from "./git.js";
+
+/**
+ * People pairing on the current repository, added as `Co-authored-by` to every commit
+ */
+export type PairSession = {
+	startedAt: number;
+	coAuthors: string[];
+};
+
+// File in the git directory the pair session is stored in
+const pairSessionFile = "AICOMMITS_PAIR";
+
+// Number of commits searched for co-authors given by name
+const recentAuthorCommits = 200;
+
+/**
+ * Turn a co-author given by name or email into a full identity
+ * Names are looked up among the authors and co-authors of recent commits
+ *
+ * @param value `Name <email>`, or part of a name or email, e.g. `jane`
+ * @param authors Identities of recent authors
+ * @returns Identity like `Jane Doe <jane@example.com>`
+ * @throws {KnownError} If no author or more than one author matches
+ */
+export const resolveCoAuthor = (value: string, authors: string[]) => {
+	const trimmed = value.trim();
+	if (/^[^<>]+<[^<>\s]+@[^<>\s]+>$/.test(trimmed)) {
+		return trimmed;
+	}
+
+	const query = trimmed.toLowerCase();
+	const matches = authors.filter((author) => author.toLowerCase().includes(query));
+	if (matches.length === 0) {
+		throw new KnownError(
+			`No recent author matches "${trimmed}", use the full "Name <email>" form`,
+		);
+	}
+	if (matches.length > 1) {
+		throw new KnownError(`"${trimmed}" matches several authors: ${matches.join(", ")}`);
+	}
+	return matches[0];
+};
+
+/**
+ * Resolve co-authors given by name or email against the recent commits
+ */
+export const resolveCoAuthors = async (values: string[]) => {
+	if (values.every((value) => value.includes("<"))) {
+		return values.map((value) => resolveCoAuthor(value, []));
+	}
+
+	const authors = await getRecentAuthors(recentAuthorCommits);
+	return values.map((value) => resolveCoAuthor(value, authors));
+};
+
+/**
+ * Read the current pair session, expired sessions are removed
+ *
+ * @param hours How long a session lasts after it was started
+ * @returns The session, undefined if none is running
+ */
+export const readPairSession = async (
+	hours: number,
+): Promise<PairSession | undefined> => {
+	const file = await getGitPath(pairSessionFile);
+
+	try {
+		const session = JSON.parse(await fs.readFile(file, "utf8")) as PairSession;
+		if (Date.now() - session.startedAt > hours * 60 * 60 * 1000) {
+			await fs.rm(file, { force: true });
+			return undefined;
+		}
+		return session;
+	} catch {
+		// A missing or corrupt file means nobody is pairing
+		return undefined;
+	}
+};
+
+/**
+ * Start a pair session, replacing the current one
+ *
+ * @param coAuthors Identities like `Jane Doe <jane@example.com>`
+ */
+export const startPairSession = async (coAuthors: string[]): Promise<PairSession> => {
+	const session = { startedAt: Date.now(), coAuthors };
+	await fs.writeFile(await getGitPath(pairSessionFile), JSON.stringify(session), "utf8");
+	return session;
+};
+
+/**
+ * End the current pair session
+ */
+export const endPairSession = async (): Promise<void> => {
+	await fs.rm(await getGitPath(pairSessionFile), { force: true });
+};
+
+/**
+ * Collect the trailers to add to a new commit, in the order they are added:
+ * the `trailers` config, the ticket of the branch, co-authors and `Signed-off-by`
+ *
+ * @param config Configuration with the trailer settings
+ * @param coAuthors Co-authors of this commit only, by name or `Name <email>`
+ * @returns Trailers like `Co-authored-by: Jane Doe <jane@example.com>`
+ */
+export const collectTrailers = async (
+	config: ValidConfig,
+	coAuthors: string[] = [],
+): Promise<string[]> => {
+	const trailers = [...config.trailers];
+
+	if (config["use-branch-prefix"] && config["branch-prefix-placement"] === "trailer") {
+		const { trailer } = getBranchTrailer(await getCurrentBranch(), config);
+		if (trailer) {
+			trailers.push(trailer);
+		}
+	}
+
+	const session = await readPairSession(config["pair-session-hours"]);
+	const pairing = new Set([
+		...(session?.coAuthors ?? []),
+		...(await resolveCoAuthors(coAuthors)),
+	]);
+	for (const coAuthor of pairing) {
+		trailers.push(`Co-authored-by: ${coAuthor}`);
+	}
+
+	if (config.signoff) {
+		trailers.push(`Signed-off-by: ${await getCommitterIdentity()}`);
+	}
+
+	return trailers;
+};
@@ -0,0 +1,154 @@
+import assert from "node:assert/strict";
+import fs from "node:fs/promises";
+import path from "node:path";
+import { afterEach, describe, it } from "node:test";
+import { getConfig } from "./config.js";
+import { BudgetExceededError } from "./error.js";
+import {
+	type UsageRecord,
+	checkBudget,
+	estimateCost,
+	formatCost,
+	getModelPrice,
+	getMonthlySpend,
+	getUsageLogPath,
+	readUsageLog,
+	recordUsage,
+	summarizeUsage,
+} from "./usage.js";
+
+const record = (date: string, cost: number | null, model = "gpt-4o"): UsageRecord => ({
+	date,
+	repo: model === "gpt-4o" ? "app" : "api",
+	provider: "openai",
+	model,
+	promptTokens: 1000,
+	completionTokens: 100,
+	cost,
+});
+
+describe("usage", () => {
+	afterEach(() => fs.rm(getUsageLogPath(), { force: true }));
+
+	it("finds prices by the longest model prefix, configured ones first", () => {
+		const config = { "model-prices": ["gpt-4o=1/2"] };
+
+		assert.deepEqual(getModelPrice("gpt-4o-mini-2024-07-18", { "model-prices": [] }), {
+			input: 0.15,
+			output: 0.6,
+		});
+		assert.deepEqual(getModelPrice("gpt-4o-2024-08-06", config), { input: 1, output: 2 });
+		assert.equal(getModelPrice("gpt-4omni", config), undefined);
+	});
+
+	it("estimates the cost of a generation", async () => {
+		const usage = { promptTokens: 1_000_000, completionTokens: 100_000 };
+
+		const config = await getConfig();
+
+		assert.equal(estimateCost(usage, "gpt-4o", config), 3.5);
+		assert.equal(
+			estimateCost(usage, "llama3", await getConfig({ provider: "ollama" })),
+			0,
+		);
+		assert.equal(estimateCost(usage, "unknown", config), undefined);
+		assert.equal(formatCost(3.5), "$3.50");
+		assert.equal(formatCost(0.00123), "$0.0012");
+	});
+
+	it("appends generations with tokens to the log", async () => {
+		// The model that answered is logged, e.g. a fallback model
+		const config = await getConfig({ model: "gpt-4.1" });
+
+		await recordUsage(config, { promptTokens: 1000, completionTokens: 100 }, "gpt-4o");
+		await recordUsage(config, { promptTokens: 0, completionTokens: 0 }, "gpt-4o");
+		await recordUsage(
+			await getConfig({ "usage-log": "false" }),
+			{ promptTokens: 1000, completionTokens: 100 },
+			"gpt-4o",
+		);
+		await fs.appendFile(getUsageLogPath(), "not json\n");
+
+		const records = await readUsageLog();
+		assert.equal(records.length, 1);
+		assert.equal(records[0].model, "gpt-4o");
+		assert.equal(records[0].cost, 0.0035);
+		assert.equal(records[0].repo, path.basename(path.resolve(".")));
+	});
+
+	it("adds up the spend of the current month", () => {
+		const now = new Date(2025, 4, 20);
+		const records = [
+			record(new Date(2025, 3, 30).toISOString(), 5),
+			record(new Date(2025, 4, 1).toISOString(), 1.5),
+			record(new Date(2025, 4, 19).toISOString(), null),
+			record(new Date(2025, 4, 20).toISOString(), 0.5),
+		];
+
+		assert.equal(getMonthlySpend(records, now), 2);
+	});
+
+	it("warns or blocks once the budget is used up", async () => {
+		await fs.mkdir(path.dirname(getUsageLogPath()), { recursive: true });
+		await fs.writeFile(
+			getUsageLogPath(),
+			`${JSON.stringify(record(new Date().toISOString(), 2))}\n`,
+		);
+
+		assert.equal(await checkBudget(await getConfig()), undefined);
+		assert.equal(await checkBudget(await getConfig({ budget: "5" })), undefined);
+		assert.equal(
+			await checkBudget(await getConfig({ budget: "1" })),
+			"Monthly budget of $1.00 used up, $2.00 spent this month",
+		);
+		await assert.rejects(
+			checkBudget(await getConfig({ budget: "1", "budget-action": "block" })),
+			(error) => {
+				assert.ok(error instanceof BudgetExceededError);
+				assert.match(
+					error.message,
+					/Raise `budget` or set `budget-action=warn` to keep generating\.$/,
+				);
+				return true;
+			},
+		);
+	});
+
+	it("groups the log by day, model or repository", () => {
+		const records = [
+			record(new Date(2025, 4, 2, 12).toISOString(), 1),
+			record(new Date(2025, 4, 1, 12).toISOString(), null, "llama3"),
+			record(new Date(2025, 4, 2, 13).toISOString(), 2),
+		];
+
+		assert.deepEqual(
+			summarizeUsage(records, "day").map(({ key, runs }) => [key, runs]),
+			[
+				["2025-05-01", 1],
+				["2025-05-02", 2],
+			],
+		);
+		assert.deepEqual(summarizeUsage(records, "model"), [
+			{
+				key: "openai/gpt-4o",
+				runs: 2,
+				promptTokens: 2000,
+				completionTokens: 200,
+				cost: 3,
+				unpriced: 0,
+			},
+			{
+				key: "openai/llama3",
+				runs: 1,
+				promptTokens: 1000,
+				completionTokens: 100,
+				cost: 0,
+				unpriced: 1,
+			},
+		]);
+		assert.deepEqual(
+			summarizeUsage(records, "repo").map(({ key }) => key),
+			["app", "api"],
+		);
+	});
+});
@@ -0,0 +1,309 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { execa } from "execa";
+import type { ValidConfig } from "./config.js";
+import { BudgetExceededError } from "./error.js";
+import type { TokenUsage } from "./providers/index.js";
+
+/**
+ * A generation appended to the usage log
+ */
+export type UsageRecord = {
+	// ISO timestamp
+	date: string;
+	// Name of the repository's root directory
+	repo: string;
+	provider: string;
+	model: string;
+	promptTokens: number;
+	completionTokens: number;
+	// Estimated cost in USD, null if the model's price is unknown
+	cost: number | null;
+};
+
+/**
+ * Price of a model in USD per million tokens
+ */
+export type ModelPrice = {
+	input: number;
+	output: number;
+};
+
+/**
+ * Prices of common models, in USD per million tokens
+ * Versioned names like `gpt-4o-2024-08-06` use the longest matching prefix
+ */
+export const defaultModelPrices: Record<string, ModelPrice> = {
+	"gpt-3.5-turbo": { input: 0.5, output: 1.5 },
+	"gpt-4": { input: 30, output: 60 },
+	"gpt-4-turbo": { input: 10, output: 30 },
+	"gpt-4o": { input: 2.5, output: 10 },
+	"gpt-4o-mini": { input: 0.15, output: 0.6 },
+	"gpt-4.1": { input: 2, output: 8 },
+	"gpt-4.1-mini": { input: 0.4, output: 1.6 },
+	"gpt-4.1-nano": { input: 0.1, output: 0.4 },
+	"o3-mini": { input: 1.1, output: 4.4 },
+	"o4-mini": { input: 1.1, output: 4.4 },
+	"claude-3-haiku": { input: 0.25, output: 1.25 },
+	"claude-3-5-haiku": { input: 0.8, output: 4 },
+	"claude-3-5-sonnet": { input: 3, output: 15 },
+	"claude-3-7-sonnet": { input: 3, output: 15 },
+	"claude-sonnet-4": { input: 3, output: 15 },
+	"claude-3-opus": { input: 15, output: 75 },
+	"claude-opus-4": { input: 15, output: 75 },
+};
+
+/**
+ * Ways `aicommits usage` can group the log
+ */
+export const usageGroupings = ["day", "model", "repo"] as const;
+export type UsageGrouping = (typeof usageGroupings)[number];
+
+/**
+ * Totals of the generations sharing a day, model or repository
+ */
+export type UsageSummary = {
+	key: string;
+	runs: number;
+	promptTokens: number;
+	completionTokens: number;
+	cost: number;
+	// Runs whose cost couldn't be estimated
+	unpriced: number;
+};
+
+/**
+ * Get the path of the usage log
+ * Follows the XDG base directory spec: `$XDG_STATE_HOME/aicommits/usage.jsonl`
+ */
+export const getUsageLogPath = () =>
+	path.join(
+		process.env.XDG_STATE_HOME || path.join(os.homedir(), ".local", "state"),
+		"aicommits",
+		"usage.jsonl",
+	);
+
+/**
+ * Parse the `model-prices` config entries, `model=input/output`
+ */
+const parseModelPrices = (entries: string[]) =>
+	Object.fromEntries(
+		entries.map((entry) => {
+			const index = entry.lastIndexOf("=");
+			const [input, output] = entry
+				.slice(index + 1)
+				.split("/")
+				.map(Number);
+			return [entry.slice(0, index).trim(), { input, output }];
+		}),
+	) as Record<string, ModelPrice>;
+
+/**
+ * Find the price of a model, configured prices take precedence over the defaults
+ *
+ * @param model Name of the model
+ * @param config Configuration with the `model-prices` entries
+ * @returns The price, undefined if unknown
+ */
+export const getModelPrice = (
+	model: string,
+	config: Pick<ValidConfig, "model-prices">,
+): ModelPrice | undefined => {
+	const configured = parseModelPrices(config["model-prices"]);
+	for (const prices of [configured, defaultModelPrices]) {
+		const match = Object.keys(prices)
+			.filter((name) => model === name || model.startsWith(`${name}-`))
+			.sort((a, b) => b.length - a.length)[0];
+		if (match) {
+			return prices[match];
+		}
+	}
+	return undefined;
+};
+
+/**
+ * Estimate the cost of a generation
+ *
+ * @param usage Tokens used by the generation
+ * @param model Model that answered, which may be a fallback model
+ * @param config Configuration with the provider and prices
+ * @returns Cost in USD, undefined if the model's price is unknown
+ */
+export const estimateCost = (
+	usage: TokenUsage,
+	model: string,
+	config: Pick<ValidConfig, "provider" | "model-prices">,
+): number | undefined => {
+	// Local models cost nothing per token
+	if (config.provider === "ollama" && config["model-prices"].length === 0) {
+		return 0;
+	}
+
+	const price = getModelPrice(model, config);
+	if (!price) {
+		return undefined;
+	}
+	return (usage.promptTokens * price.input + usage.completionTokens * price.output) / 1e6;
+};
+
+/**
+ * Format a cost in USD, small amounts keep more decimals
+ */
+export const formatCost = (cost: number) =>
+	`$${cost.toFixed(cost > 0 && cost < 1 ? 4 : 2)}`;
+
+/**
+ * Get the name of the current repository, `-` outside of one
+ */
+const getRepoName = async () => {
+	const { stdout, failed } = await execa("git", ["rev-parse", "--show-toplevel"], {
+		reject: false,
+	});
+	return failed ? "-" : path.basename(stdout.trim());
+};
+
+/**
+ * Append a generation to the usage log. Failures are ignored, the log is only
+ * informational. Generations without tokens, e.g. cached ones, aren't logged.
+ *
+ * @param config Configuration with the provider and prices
+ * @param usage Tokens used by the generation
+ * @param model Model that answered, which may be a fallback model
+ */
+export const recordUsage = async (
+	config: ValidConfig,
+	usage: TokenUsage,
+	model: string,
+) => {
+	if (!config["usage-log"] || usage.promptTokens + usage.completionTokens === 0) {
+		return;
+	}
+
+	const record: UsageRecord = {
+		date: new Date().toISOString(),
+		repo: await getRepoName(),
+		provider: config.provider,
+		model,
+		promptTokens: usage.promptTokens,
+		completionTokens: usage.completionTokens,
+		cost: estimateCost(usage, model, config) ?? null,
+	};
+
+	try {
+		const file = getUsageLogPath();
+		await fs.mkdir(path.dirname(file), { recursive: true });
+		await fs.appendFile(file, `${JSON.stringify(record)}\n`, "utf8");
+	} catch {
+		// Not being able to log must never fail a commit
+	}
+};
+
+/**
+ * Read the usage log, lines that can't be parsed are skipped
+ *
+ * @returns The logged generations, oldest first
+ */
+export const readUsageLog = async (): Promise<UsageRecord[]> => {
+	const content = await fs.readFile(getUsageLogPath(), "utf8").catch(() => "");
+
+	return content.split("\n").flatMap((line) => {
+		try {
+			return line ? [JSON.parse(line) as UsageRecord] : [];
+		} catch {
+			return [];
+		}
+	});
+};
+
+/**
+ * Local calendar day of a record, `YYYY-MM-DD`
+ */
+const getDay = (date: Date) =>
+	`${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}-${String(
+		date.getDate(),
+	).padStart(2, "0")}`;
+
+/**
+ * Add up the estimated cost of the generations in the current calendar month
+ */
+export const getMonthlySpend = (records: UsageRecord[], now = new Date()) =>
+	records
+		.filter(({ date }) => {
+			const recorded = new Date(date);
+			return (
+				recorded.getFullYear() === now.getFullYear() &&
+				recorded.getMonth() === now.getMonth()
+			);
+		})
+		.reduce((sum, { cost }) => sum + (cost ?? 0), 0);
+
+/**
+ * Check the monthly spend against the `budget` config before generating
+ *
+ * @param config Configuration with the budget settings
+ * @returns A warning if the budget is used up and `budget-action` is `warn`
+ * @throws {BudgetExceededError} If the budget is used up and `budget-action` is `block`
+ */
+export const checkBudget = async (config: ValidConfig): Promise<string | undefined> => {
+	if (!config.budget) {
+		return undefined;
+	}
+
+	const spent = getMonthlySpend(await readUsageLog());
+	if (spent < config.budget) {
+		return undefined;
+	}
+
+	const message = `Monthly budget of ${formatCost(config.budget)} used up, ${formatCost(
+		spent,
+	)} spent this month`;
+	if (config["budget-action"] === "block") {
+		throw new BudgetExceededError(
+			`${message}. Raise \`budget\` or set \`budget-action=warn\` to keep generating.`,
+		);
+	}
+	return message;
+};
+
+/**
+ * Group the usage log by day, model or repository
+ *
+ * @param records The logged generations
+ * @param by What to group by
+ * @returns Totals per group, sorted by day or by cost
+ */
+export const summarizeUsage = (
+	records: UsageRecord[],
+	by: UsageGrouping,
+): UsageSummary[] => {
+	const groups = new Map<string, UsageSummary>();
+	for (const record of records) {
+		const key =
+			by === "day"
+				? getDay(new Date(record.date))
+				: by === "model"
+				  ? `${record.provider}/${record.model}`
+				  : record.repo;
+
+		const summary = groups.get(key) ?? {
+			key,
+			runs: 0,
+			promptTokens: 0,
+			completionTokens: 0,
+			cost: 0,
+			unpriced: 0,
+		};
+		summary.runs += 1;
+		summary.promptTokens += record.promptTokens;
+		summary.completionTokens += record.completionTokens;
+		summary.cost += record.cost ?? 0;
+		summary.unpriced += record.cost === null ? 1 : 0;
+		groups.set(key, summary);
+	}
+
+	const summaries = [...groups.values()];
+	return by === "day"
+		? summaries.sort((a, b) => a.key.localeCompare(b.key))
+		: summaries.sort((a, b) => b.cost - a.cost);
+};